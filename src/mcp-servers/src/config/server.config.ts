@@ -4,6 +4,18 @@ import path from 'path';
 // Load environment variables
 dotenv.config();
 
+function providerList(value?: string): string[] {
+  return (value || '').split(',').map(name => name.trim()).filter(Boolean);
+}
+
+// Numeric variables named <prefix><NAME>, by NAME in lower case with
+// dashes, e.g. LLM_TIMEOUT_OPENAI as openai
+function numbersByName(prefix: string): Record<string, number> {
+  return Object.fromEntries(Object.entries(process.env)
+    .filter(([name, value]) => name.startsWith(prefix) && value)
+    .map(([name, value]) => [name.slice(prefix.length).toLowerCase().replace(/_/g, '-'), parseInt(value as string, 10)]));
+}
+
 export const ServerConfig = {
   port: parseInt(process.env.PORT || '3000', 10),
   environment: process.env.NODE_ENV || 'development',
@@ -13,6 +25,43 @@ export const ServerConfig = {
   // Server paths
   rootDir: path.resolve(__dirname, '../../'),
   uploadsDir: path.resolve(__dirname, '../../uploads'),
+  workflowDbPath: process.env.WORKFLOW_DB_PATH || path.resolve(__dirname, '../../data/workflows.sqlite'),
+  // Changes to the workflow database are written to disk in one go this many ms after the first
+  workflowDbFlushDelay: parseInt(process.env.WORKFLOW_DB_FLUSH_DELAY || '500', 10),
+  // Extra workflow definitions (*.json) loaded next to the built-in ones
+  workflowDefinitionsDir: process.env.WORKFLOW_DEFINITIONS_DIR,
+
+  // LLM providers
+  // Provider used when a request does not name one; 'local' needs no network
+  defaultLlmProvider: process.env.LLM_PROVIDER || 'perplexity',
+  // Recorded answers of the local provider, by task and document hash
+  llmFixturesDir: process.env.LLM_FIXTURES_DIR || path.resolve(__dirname, '../../fixtures/llm'),
+  // Forms under this directory can be fetched with file:// URLs instead of
+  // being downloaded; unset, file URLs are refused
+  localFormsDir: process.env.LOCAL_FORMS_DIR ? path.resolve(process.env.LOCAL_FORMS_DIR) : undefined,
+  // Providers tried in order for each task when a request does not name
+  // one, e.g. LLM_CHAIN_EXTRACT_FIELDS=native,anthropic,openai
+  llmChains: {
+    'extract-fields': providerList(process.env.LLM_CHAIN_EXTRACT_FIELDS),
+    'annotate-fields': providerList(process.env.LLM_CHAIN_ANNOTATE_FIELDS),
+    'extract-data': providerList(process.env.LLM_CHAIN_EXTRACT_DATA)
+  } as Record<string, string[]>,
+  llmTimeout: parseInt(process.env.LLM_TIMEOUT || '120000', 10), // 2 minutes
+  llmProviderTimeouts: numbersByName('LLM_TIMEOUT_'),
+  // Failures in a row after which a provider is skipped, and for how long
+  llmBreakerThreshold: parseInt(process.env.LLM_BREAKER_THRESHOLD || '3', 10),
+  llmBreakerCooldown: parseInt(process.env.LLM_BREAKER_COOLDOWN || '60000', 10),
+  // Times a malformed answer is sent back to the model to be corrected
+  llmRepairAttempts: parseInt(process.env.LLM_REPAIR_ATTEMPTS || '2', 10),
+
+  // Analysis cache
+  // Answers of extract-fields and extract-data by document hash, provider,
+  // model, prompt version and target fields
+  analysisCacheEnabled: process.env.ANALYSIS_CACHE !== 'false',
+  analysisCacheDir: process.env.ANALYSIS_CACHE_DIR || path.resolve(__dirname, '../../data/analysis-cache'),
+  analysisCacheTtl: parseInt(process.env.ANALYSIS_CACHE_TTL || '2592000000', 10), // 30 days
+  // ANALYSIS_CACHE_TTL_<TASK> variables, e.g. ANALYSIS_CACHE_TTL_EXTRACT_DATA
+  analysisCacheTaskTtls: numbersByName('ANALYSIS_CACHE_TTL_'),
 
   // Security
   corsOrigins: process.env.CORS_ORIGINS?.split(',') || ['http://localhost:3000'],
@@ -20,14 +69,27 @@ export const ServerConfig = {
   // Performance
   maxRequestSize: '50mb',
   timeout: 30000, // 30 seconds
+  toolTimeout: parseInt(process.env.MCP_TOOL_TIMEOUT || '300000', 10), // 5 minutes
+  workflowConcurrency: parseInt(process.env.WORKFLOW_CONCURRENCY || '2', 10),
+  // Return a matching queued, running or successful workflow for a request
+  // with the same inputs and documents instead of starting another
+  workflowDedupe: process.env.WORKFLOW_DEDUPE === 'true',
+
+  // Webhooks
+  // Signs deliveries for workflows that were not given their own secret
+  webhookSecret: process.env.WEBHOOK_SECRET,
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+  // Delay before the first retry, doubled for every further one
+  webhookRetryDelay: parseInt(process.env.WEBHOOK_RETRY_DELAY || '2000', 10),
+  webhookTimeout: parseInt(process.env.WEBHOOK_TIMEOUT || '10000', 10),
 };
 
-// Validate required environment variables
-const requiredEnvVars = ['ANTHROPIC_API_KEY'];
-const missingEnvVars = requiredEnvVars.filter(envVar => !process.env[envVar]);
+// Every provider key is optional: without any, forms can still be read
+// natively and analysed by the offline 'local' provider
+const providerKeys = ['ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'PERPLEXITY_API_KEY'];
 
-if (missingEnvVars.length > 0) {
-  throw new Error(`Missing required environment variables: ${missingEnvVars.join(', ')}`);
+if (!providerKeys.some(envVar => process.env[envVar])) {
+  console.warn(`[ServerConfig] None of ${providerKeys.join(', ')} is set; only the local and native providers will work`);
 }
 
 export default ServerConfig;
\ No newline at end of file
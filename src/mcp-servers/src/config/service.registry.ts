@@ -0,0 +1,100 @@
+import ServerConfig from './server.config';
+
+export type ServiceKey =
+  | 'puppeteer'
+  | 'aiAnalysis'
+  | 'orchestration'
+  | 'documentExtraction'
+  | 'fieldMapping'
+  | 'formFilling';
+
+export interface ServiceDefinition {
+  key: ServiceKey;
+  name: string;
+  port: number;
+  url: string;
+  mcpUrl: string;
+  enabled: boolean;
+}
+
+/**
+ * Default topology. Each service can be reconfigured through environment
+ * variables using its prefix, e.g. FORM_FILLING_SERVER_PORT,
+ * FORM_FILLING_SERVER_URL, FORM_FILLING_SERVER_MCP_URL and
+ * FORM_FILLING_SERVER_ENABLED.
+ */
+const serviceDefaults: Array<{
+  key: ServiceKey;
+  name: string;
+  envPrefix: string;
+  portOffset: number;
+}> = [
+  { key: 'puppeteer', name: 'Puppeteer Server', envPrefix: 'PUPPETEER_SERVER', portOffset: 0 },
+  { key: 'aiAnalysis', name: 'AI Analysis Server', envPrefix: 'AI_ANALYSIS_SERVER', portOffset: 1 },
+  { key: 'orchestration', name: 'Orchestration Service', envPrefix: 'ORCHESTRATION_SERVICE', portOffset: 2 },
+  { key: 'documentExtraction', name: 'Document Extraction Server', envPrefix: 'DOCUMENT_EXTRACTION_SERVER', portOffset: 3 },
+  { key: 'fieldMapping', name: 'Field Mapping Service', envPrefix: 'FIELD_MAPPING_SERVICE', portOffset: 4 },
+  { key: 'formFilling', name: 'Form Filling Server', envPrefix: 'FORM_FILLING_SERVER', portOffset: 5 }
+];
+
+export class ServiceRegistry {
+  private services: Map<ServiceKey, ServiceDefinition>;
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    const host = env.SERVICE_HOST || 'localhost';
+
+    this.services = new Map(
+      serviceDefaults.map(({ key, name, envPrefix, portOffset }) => {
+        const port = parseInt(env[`${envPrefix}_PORT`] || String(ServerConfig.port + portOffset), 10);
+        const url = env[`${envPrefix}_URL`] || `http://${host}:${port}`;
+
+        return [key, {
+          key,
+          name,
+          port,
+          url,
+          mcpUrl: env[`${envPrefix}_MCP_URL`] || `${url}/mcp`,
+          enabled: env[`${envPrefix}_ENABLED`] !== 'false'
+        }];
+      })
+    );
+  }
+
+  /**
+   * Get a service definition by key
+   */
+  public get(key: ServiceKey): ServiceDefinition {
+    const service = this.services.get(key);
+
+    if (!service) {
+      throw new Error(`Unknown service: ${key}`);
+    }
+
+    return service;
+  }
+
+  /**
+   * Resolve the base URL of a service
+   */
+  public getUrl(key: ServiceKey): string {
+    return this.get(key).url;
+  }
+
+  /**
+   * List all registered services
+   */
+  public list(): ServiceDefinition[] {
+    return Array.from(this.services.values());
+  }
+
+  /**
+   * List the services that should be started in this process
+   */
+  public getEnabled(): ServiceDefinition[] {
+    return this.list().filter(service => service.enabled);
+  }
+}
+
+export const serviceRegistry = new ServiceRegistry();
+
+export default serviceRegistry;
@@ -1,11 +1,27 @@
-import { PDFServer } from './servers/pdf.server';
+import { BaseMCPServer } from './servers/base.server';
 import { PuppeteerServer } from './servers/puppeteer/puppeteer.server';
 import { AIAnalysisServer } from './servers/ai-analysis/ai-analysis.server';
+import { DocumentExtractionServer } from './servers/document-extraction/document-extraction.server';
+import { FormFillingServer } from './servers/form-filling/form-filling.server';
+import { FieldMappingService } from './services/field-mapping.service';
 import { OrchestrationService } from './services/orchestration.service';
 import ServerConfig from './config/server.config';
+import serviceRegistry, { ServiceKey } from './config/service.registry';
 import fs from 'fs';
 import path from 'path';
 
+// When launched by an MCP client (e.g. `ts-node src/index.ts --stdio formFilling`)
+// a single server speaks JSON-RPC over stdio instead of starting HTTP listeners
+const stdioFlagIndex = process.argv.indexOf('--stdio');
+const stdioServiceKey = stdioFlagIndex >= 0 ? process.argv[stdioFlagIndex + 1] : undefined;
+
+if (stdioFlagIndex >= 0) {
+  // stdout carries the protocol stream, so all logging goes to stderr
+  console.log = console.error;
+  console.info = console.error;
+  console.warn = console.error;
+}
+
 console.log('Starting Agentic PDF MCP Servers...');
 console.log(`Environment: ${ServerConfig.environment}`);
 console.log(`Log Level: ${ServerConfig.logLevel}`);
@@ -23,37 +39,56 @@ requiredDirs.forEach(dir => {
   }
 });
 
-// Initialize and start Puppeteer Server
-const puppeteerServer = new PuppeteerServer();
-puppeteerServer.start(ServerConfig.port);
+// Server implementation for each registered service
+const serverFactories: Record<ServiceKey, () => BaseMCPServer> = {
+  puppeteer: () => new PuppeteerServer(),
+  aiAnalysis: () => new AIAnalysisServer(),
+  orchestration: () => new OrchestrationService(),
+  documentExtraction: () => new DocumentExtractionServer(),
+  fieldMapping: () => new FieldMappingService(),
+  formFilling: () => new FormFillingServer()
+};
 
-// Initialize and start AI Analysis Server
-const aiAnalysisServer = new AIAnalysisServer();
-aiAnalysisServer.start(ServerConfig.port + 1);
+// Initialize and start every enabled service
+const runningServers: BaseMCPServer[] = [];
 
-// Initialize and start Orchestration Service
-const orchestrationService = new OrchestrationService();
-orchestrationService.start(ServerConfig.port + 2);
+if (stdioFlagIndex >= 0) {
+  if (!stdioServiceKey || !Object.prototype.hasOwnProperty.call(serverFactories, stdioServiceKey)) {
+    console.error(`Usage: --stdio <${Object.keys(serverFactories).join('|')}>`);
+    process.exit(1);
+  }
 
-console.log(`Puppeteer Server running on port ${ServerConfig.port}`);
-console.log(`AI Analysis Server running on port ${ServerConfig.port + 1}`);
-console.log(`Orchestration Service running on port ${ServerConfig.port + 2}`);
+  const service = serviceRegistry.get(stdioServiceKey as ServiceKey);
+  const server = serverFactories[service.key]();
+  runningServers.push(server);
 
-// Handle graceful shutdown
-process.on('SIGTERM', async () => {
-  console.log('Received SIGTERM. Performing graceful shutdown...');
+  server.startStdio().catch(error => {
+    console.error(`Failed to start ${service.name} on stdio:`, error);
+    process.exit(1);
+  });
+} else {
+  for (const service of serviceRegistry.getEnabled()) {
+    const server = serverFactories[service.key]();
+    server.start(service.port);
+    runningServers.push(server);
 
-  // Cleanup resources if needed
-  await (puppeteerServer as any).shutdown?.();
+    console.log(`${service.name} running on port ${service.port}`);
+  }
 
-  process.exit(0);
-});
+  serviceRegistry.list()
+    .filter(service => !service.enabled)
+    .forEach(service => console.log(`${service.name} disabled, using ${service.url}`));
+}
 
-process.on('SIGINT', async () => {
-  console.log('Received SIGINT. Performing graceful shutdown...');
+// Handle graceful shutdown
+const shutdown = async (signal: string) => {
+  console.log(`Received ${signal}. Performing graceful shutdown...`);
 
-  // Cleanup resources if needed
-  await (puppeteerServer as any).shutdown?.();
+  // Cleanup resources held by each server
+  await Promise.all(runningServers.map(server => server.shutdown()));
 
   process.exit(0);
-});
\ No newline at end of file
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
@@ -0,0 +1,147 @@
+import { evaluate, isEmpty, resolveBindings } from './bindings';
+
+describe('resolveBindings', () => {
+  const scope = {
+    inputs: { pdfUrl: 'https://example.com/forms/fw4.pdf', confidence: 0.8, tags: ['a', 'b'] },
+    steps: {
+      download: { data: { path: '/uploads/fw4.pdf' } },
+      map: {
+        data: {
+          mappedFields: [
+            { fieldName: 'name', value: 'Jane Doe' },
+            { fieldName: 'ssn', value: '' },
+            { fieldName: 'city', value: 'Springfield' }
+          ]
+        }
+      }
+    }
+  };
+
+  it('keeps the value of a whole binding as is', () => {
+    expect(resolveBindings('{{ inputs.tags }}', scope)).toEqual(['a', 'b']);
+    expect(resolveBindings('{{ inputs.confidence }}', scope)).toBe(0.8);
+  });
+
+  it('interpolates bindings inside longer strings', () => {
+    expect(resolveBindings('Filling {{ basename(steps.download.data.path) }} at {{ inputs.confidence }}', scope))
+      .toBe('Filling fw4.pdf at 0.8');
+  });
+
+  it('resolves templates in nested objects and lists', () => {
+    expect(resolveBindings({ file: { path: '{{ steps.download.data.path }}' }, list: ['{{ inputs.confidence }}'] }, scope))
+      .toEqual({ file: { path: '/uploads/fw4.pdf' }, list: [0.8] });
+  });
+
+  describe('missing paths', () => {
+    it('resolve to undefined instead of throwing', () => {
+      expect(resolveBindings('{{ steps.extract.data.fields }}', scope)).toBeUndefined();
+    });
+
+    it('interpolate as empty text', () => {
+      expect(resolveBindings('Form: {{ steps.extract.data.name }}', scope)).toBe('Form: ');
+    });
+
+    it('drop the object keys they are bound to', () => {
+      expect(resolveBindings({ path: '{{ steps.download.data.path }}', fields: '{{ steps.extract.data.fields }}' }, scope))
+        .toEqual({ path: '/uploads/fw4.pdf' });
+    });
+
+    it('fall back with ||', () => {
+      expect(resolveBindings('{{ inputs.threshold || inputs.confidence }}', scope)).toBe(0.8);
+      expect(resolveBindings('{{ steps.extract.data || {} }}', scope)).toEqual({});
+    });
+  });
+
+  describe('merge', () => {
+    it('combines objects with later ones overriding earlier ones', () => {
+      expect(evaluate('merge(a, b)', { a: { x: 1, y: 1 }, b: { y: 2 } })).toEqual({ x: 1, y: 2 });
+    });
+
+    it('skips values that are not objects', () => {
+      expect(evaluate('merge(a, missing, 5, b)', { a: { x: 1 }, b: { z: 3 } })).toEqual({ x: 1, z: 3 });
+    });
+
+    it('returns a new object', () => {
+      const a = { x: 1 };
+      const merged = evaluate('merge(a)', { a });
+
+      expect(merged).toEqual(a);
+      expect(merged).not.toBe(a);
+    });
+  });
+
+  describe('filter', () => {
+    it('keeps the items whose property is set', () => {
+      expect(evaluate('filter(steps.map.data.mappedFields, "value")', scope)).toEqual([
+        { fieldName: 'name', value: 'Jane Doe' },
+        { fieldName: 'city', value: 'Springfield' }
+      ]);
+    });
+
+    it('treats a missing list as empty', () => {
+      expect(evaluate('filter(steps.extract.data.fields, "value")', scope)).toEqual([]);
+    });
+  });
+
+  describe('toObject', () => {
+    it('builds an object from the key and value of every item', () => {
+      expect(evaluate('toObject(filter(steps.map.data.mappedFields, "value"), "fieldName", "value")', scope))
+        .toEqual({ name: 'Jane Doe', city: 'Springfield' });
+    });
+
+    it('reads dotted keys and values', () => {
+      const list = [{ field: { name: 'dob' }, mapping: { value: '1990-01-01' } }];
+      expect(evaluate('toObject(list, "field.name", "mapping.value")', { list })).toEqual({ dob: '1990-01-01' });
+    });
+
+    it('treats a missing list as empty', () => {
+      expect(evaluate('toObject(missing, "fieldName", "value")', scope)).toEqual({});
+    });
+  });
+
+  describe('nonEmpty', () => {
+    it('passes values that are set', () => {
+      expect(evaluate('nonEmpty(inputs.tags)', scope)).toEqual(['a', 'b']);
+      expect(evaluate('nonEmpty(inputs.confidence)', scope)).toBe(0.8);
+    });
+
+    it('leaves empty lists, objects and missing values out of tool arguments', () => {
+      expect(resolveBindings({
+        list: '{{ nonEmpty([]) }}',
+        object: '{{ nonEmpty({}) }}',
+        missing: '{{ nonEmpty(steps.extract.data) }}',
+        kept: '{{ nonEmpty(inputs.tags) }}'
+      }, scope)).toEqual({ kept: ['a', 'b'] });
+    });
+  });
+
+  it('counts items of lists and keys of objects', () => {
+    expect(evaluate('count(inputs.tags)', scope)).toBe(2);
+    expect(evaluate('count(steps.download.data)', scope)).toBe(1);
+    expect(evaluate('count(steps.extract)', scope)).toBe(0);
+  });
+
+  it('evaluates comparisons, negation and guards', () => {
+    expect(evaluate('inputs.confidence == 0.8', scope)).toBe(true);
+    expect(evaluate('inputs.pdfUrl != "x" && !steps.extract', scope)).toBe(true);
+    expect(evaluate('steps.extract && steps.extract.data', scope)).toBeUndefined();
+  });
+
+  it('rejects unknown functions and leftover tokens', () => {
+    expect(() => evaluate('upper(inputs.pdfUrl)', scope)).toThrow('Unknown function upper in binding');
+    expect(() => evaluate('inputs.pdfUrl inputs.confidence', scope)).toThrow('Unexpected "inputs.confidence"');
+    expect(() => evaluate('merge(a', scope)).toThrow('Unexpected end of binding');
+  });
+});
+
+describe('isEmpty', () => {
+  it('counts empty lists and objects as false', () => {
+    expect(isEmpty([])).toBe(true);
+    expect(isEmpty({})).toBe(true);
+    expect(isEmpty('')).toBe(true);
+    expect(isEmpty(undefined)).toBe(true);
+    expect(isEmpty([0])).toBe(false);
+    expect(isEmpty({ a: undefined })).toBe(false);
+    expect(isEmpty('no')).toBe(false);
+  });
+});
@@ -0,0 +1,211 @@
+import path from 'path';
+
+/**
+ * Values a binding can refer to, e.g. `inputs.pdfUrl` or
+ * `steps.download.data.path`
+ */
+export type BindingScope = Record<string, any>;
+
+const BINDING = /\{\{\s*(.*?)\s*\}\}(?!\})/g;
+const WHOLE_BINDING = /^\{\{\s*(.*?)\s*\}\}$/;
+
+const TOKEN = /\s*(\|\||&&|==|!=|!|\(|\)|,|\{\}|\[\]|'[^']*'|"[^"]*"|-?\d+(?:\.\d+)?|[A-Za-z_$][\w$-]*(?:\.[\w$-]+)*)/y;
+
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  basename: (filePath: string) => filePath === undefined ? undefined : path.basename(String(filePath)),
+  // Combine objects, later ones overriding earlier ones
+  merge: (...objects: any[]) => Object.assign({}, ...objects.filter(object => object && typeof object === 'object')),
+  // Build an object from a list, e.g. mapped fields into form data
+  toObject: (list: any[], key: string, value: string) => Object.fromEntries(
+    (list || []).map(item => [lookup(item, key), lookup(item, value)])
+  ),
+  // Items of a list whose property is set
+  filter: (list: any[], property: string) => (list || []).filter(item => lookup(item, property)),
+  // Number of items in a list or keys in an object
+  count: (value: any) => Array.isArray(value) ? value.length : value && typeof value === 'object' ? Object.keys(value).length : 0,
+  // Leaves empty lists and objects out of tool arguments
+  nonEmpty: (value: any) => isEmpty(value) ? undefined : value
+};
+
+/**
+ * Resolve every `{{ expression }}` in a template. A string that is a single
+ * binding takes the bound value as is; bindings inside longer strings are
+ * interpolated. Object keys whose value resolves to undefined are dropped,
+ * so optional arguments are only sent when set.
+ */
+export function resolveBindings(template: any, scope: BindingScope): any {
+  if (typeof template === 'string') {
+    const whole = template.match(WHOLE_BINDING);
+    if (whole && !whole[1].includes('}}')) {
+      return evaluate(whole[1], scope);
+    }
+
+    return template.replace(BINDING, (_match, expression: string) => {
+      const value = evaluate(expression, scope);
+      return value === undefined || value === null ? '' : String(value);
+    });
+  }
+
+  if (Array.isArray(template)) {
+    return template.map(item => resolveBindings(item, scope));
+  }
+
+  if (template && typeof template === 'object') {
+    const resolved: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(template)) {
+      const resolvedValue = resolveBindings(value, scope);
+      if (resolvedValue !== undefined) {
+        resolved[key] = resolvedValue;
+      }
+    }
+
+    return resolved;
+  }
+
+  return template;
+}
+
+/**
+ * Evaluate a binding expression: dotted paths, JSON-like literals, `!`,
+ * `==`, `!=`, `&&` guards, `||` fallbacks and the functions above
+ */
+export function evaluate(expression: string, scope: BindingScope): any {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) {
+      throw new Error(`Expected "${token}" in binding: ${expression}`);
+    }
+  };
+
+  const parseOr = (): any => {
+    let value = parseAnd();
+    while (peek() === '||') {
+      next();
+      const alternative = parseAnd();
+      value = value || alternative;
+    }
+    return value;
+  };
+
+  const parseAnd = (): any => {
+    let value = parseComparison();
+    while (peek() === '&&') {
+      next();
+      const other = parseComparison();
+      value = value && other;
+    }
+    return value;
+  };
+
+  const parseComparison = (): any => {
+    const left = parseUnary();
+    if (peek() === '==' || peek() === '!=') {
+      const operator = next();
+      const right = parseUnary();
+      return operator === '==' ? left === right : left !== right;
+    }
+    return left;
+  };
+
+  const parseUnary = (): any => {
+    if (peek() === '!') {
+      next();
+      return !parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): any => {
+    const token = next();
+
+    if (token === undefined) {
+      throw new Error(`Unexpected end of binding: ${expression}`);
+    }
+    if (token === '(') {
+      const value = parseOr();
+      expect(')');
+      return value;
+    }
+    if (token === '{}') return {};
+    if (token === '[]') return [];
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    if (token === 'undefined') return undefined;
+    if (/^['"]/.test(token)) return token.slice(1, -1);
+    if (/^-?\d/.test(token)) return Number(token);
+
+    if (peek() === '(') {
+      const fn = FUNCTIONS[token];
+      if (!fn) {
+        throw new Error(`Unknown function ${token} in binding: ${expression}`);
+      }
+
+      next();
+      const args: any[] = [];
+      while (peek() !== ')') {
+        args.push(parseOr());
+        if (peek() === ',') {
+          next();
+        }
+      }
+      expect(')');
+
+      return fn(...args);
+    }
+
+    return lookup(scope, token);
+  };
+
+  const value = parseOr();
+
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}" in binding: ${expression}`);
+  }
+
+  return value;
+}
+
+/**
+ * Whether a binding value counts as false in a `when` condition; empty
+ * lists and objects do
+ */
+export function isEmpty(value: any): boolean {
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value).length === 0;
+  }
+  return !value;
+}
+
+function lookup(source: any, dottedPath: string): any {
+  return dottedPath.split('.').reduce((value, key) => value?.[key], source);
+}
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+
+  while (TOKEN.lastIndex < expression.length) {
+    if (/^\s*$/.test(expression.slice(TOKEN.lastIndex))) {
+      break;
+    }
+
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+
+    if (!match) {
+      throw new Error(`Cannot parse binding at "${expression.slice(start)}": ${expression}`);
+    }
+    tokens.push(match[1]);
+  }
+
+  return tokens;
+}
@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+
+export interface FileDigest {
+  path: string;
+  sha256?: string;
+  bytes?: number;
+  // Set instead of the hash when the file cannot be read
+  error?: string;
+}
+
+/**
+ * SHA-256 of a file's contents, read as a stream so large PDFs are not
+ * loaded into memory
+ */
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Hash and size of a file, or why they could not be read
+ */
+export async function digestFile(filePath: string): Promise<FileDigest> {
+  try {
+    const { size } = await fs.promises.stat(filePath);
+    return { path: filePath, sha256: await sha256File(filePath), bytes: size };
+  } catch (error) {
+    return { path: filePath, error: (error as Error).message };
+  }
+}
@@ -0,0 +1,216 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import ServerConfig from '../config/server.config';
+import { ServiceKey } from '../config/service.registry';
+import { resolveUploadPath } from '../services/upload-path';
+import { sha256File } from './file-hash';
+import pdfAnalysisDefinition from './definitions/pdf-analysis.json';
+import formFillingDefinition from './definitions/form-filling.json';
+
+/**
+ * A step calls one MCP tool, or with `review` pauses the run until a person
+ * approves the data it shows. Strings in `input`, `output`, `when`,
+ * `forEach`, `artifact`, `review` and `messages` may contain `{{ }}`
+ * bindings, which see `workflowId`, `inputs`, `steps.<id>.data` of earlier
+ * steps, `now`, `timestamp` and, per item, `item`. `output`, `provenance`
+ * and the completed message also see the tool's `result`; `artifact` and
+ * the completed message of a review see the step's data as `result`.
+ */
+export interface WorkflowStepDefinition {
+  id: string;
+  tool?: string;
+  input?: Record<string, any>;
+  // Data put up for review instead of calling a tool. The workflow waits in
+  // 'awaiting_review' until it is approved; the approved, possibly edited,
+  // data becomes the step's data.
+  review?: Record<string, any>;
+  // Data stored for the step; the whole tool result when omitted
+  output?: Record<string, any>;
+  // How the result came about, e.g. the provider, model and prompt version
+  // the tool reports. Stored with the step and copied into the run manifest.
+  provenance?: Record<string, any>;
+  // The step is skipped when this binding is false or empty
+  when?: string;
+  // Call the tool once per item of this list; each item's result is stored
+  // on its own and reused by later runs
+  forEach?: string;
+  // With forEach, merge this property of every item's data into the step's
+  // data. The step fails only when every item failed.
+  merge?: string;
+  // 'continue' records the failure and moves on instead of ending the run
+  onError?: 'fail' | 'continue';
+  // File produced by the step, recorded as a workflow artifact
+  artifact?: { kind: string; path: string };
+  // `item` names a forEach item in progress events
+  messages?: { started?: string; completed?: string; failed?: string; item?: string };
+}
+
+export interface WorkflowDefinition {
+  name: string;
+  description?: string;
+  // Services whose tools the steps call
+  services: ServiceKey[];
+  // JSON Schema for the parameters a run is started with; defaults apply
+  inputs: Record<string, any>;
+  // Inputs holding local file paths, or lists of them. Request fingerprints
+  // use the files' contents, so re-uploaded documents still match.
+  fileInputs?: string[];
+  steps: WorkflowStepDefinition[];
+  // Data returned by a successful run
+  output?: Record<string, any>;
+  // Workflow result reported by status requests once the last step is stored
+  result?: Record<string, any>;
+  // Fields shown for the workflow in listings, resolved from the stored
+  // steps, e.g. the form name and how many fields were mapped
+  summary?: Record<string, any>;
+  // Data added to the result of a failed run, when `when` holds
+  onFailure?: { when?: string; data: Record<string, any> };
+  // Every finished run writes a manifest recording its inputs, step
+  // provenance and output hashes. It is written next to the latest artifact
+  // of kind `nextTo`, or into the manifests directory without one; `data`
+  // adds fields resolved from the run's steps.
+  manifest?: { nextTo?: string; data?: Record<string, any> };
+}
+
+/**
+ * Raised when a file named by a file input cannot be read
+ */
+export class InputFileError extends Error {
+  public readonly input: string;
+  public readonly path: string;
+
+  constructor(input: string, filePath: string, reason: string) {
+    super(`Cannot read ${input} file ${filePath}: ${reason}`);
+    this.name = 'InputFileError';
+    this.input = input;
+    this.path = filePath;
+  }
+}
+
+const BUILT_IN_DEFINITIONS = [pdfAnalysisDefinition, formFillingDefinition] as unknown as WorkflowDefinition[];
+
+/**
+ * The workflow definitions the engine can run: the built-in pipelines plus
+ * any JSON definitions found in ServerConfig.workflowDefinitionsDir
+ */
+export class WorkflowDefinitionRegistry {
+  private definitions: Map<string, WorkflowDefinition>;
+  private inputValidators: Map<string, ValidateFunction>;
+  private ajv: Ajv;
+
+  constructor(definitionsDir: string | undefined = ServerConfig.workflowDefinitionsDir) {
+    this.definitions = new Map();
+    this.inputValidators = new Map();
+    this.ajv = new Ajv({ allErrors: true, strict: false, useDefaults: true });
+
+    BUILT_IN_DEFINITIONS.forEach(definition => this.register(definition));
+
+    if (definitionsDir && fs.existsSync(definitionsDir)) {
+      fs.readdirSync(definitionsDir)
+        .filter(file => file.endsWith('.json'))
+        .forEach(file => {
+          this.register(JSON.parse(fs.readFileSync(path.join(definitionsDir, file), 'utf8')));
+          console.log(`[WorkflowDefinitions] Loaded ${file} from ${definitionsDir}`);
+        });
+    }
+  }
+
+  public register(definition: WorkflowDefinition): void {
+    this.check(definition);
+
+    this.definitions.set(definition.name, definition);
+    this.inputValidators.set(definition.name, this.ajv.compile(definition.inputs));
+  }
+
+  public get(name: string): WorkflowDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  public list(): WorkflowDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Validate run parameters against a definition's input schema. Returns a
+   * copy without unset values and with defaults filled in, or the
+   * validation error.
+   */
+  public validateInputs(name: string, inputs: Record<string, any>): { inputs: Record<string, any>; error?: string } {
+    const validate = this.inputValidators.get(name);
+    const copy: Record<string, any> = JSON.parse(JSON.stringify(inputs));
+
+    if (!validate) {
+      return { inputs: copy, error: `Unknown workflow: ${name}` };
+    }
+
+    return validate(copy)
+      ? { inputs: copy }
+      : { inputs: copy, error: this.ajv.errorsText(validate.errors, { dataVar: 'inputs' }) };
+  }
+
+  /**
+   * Hash identifying a request by its workflow, inputs and the contents of
+   * its input files, independent of key order. Throws InputFileError when an
+   * input file cannot be read.
+   */
+  public async fingerprint(name: string, inputs: Record<string, any>): Promise<string> {
+    const definition = this.definitions.get(name);
+    const content: Record<string, any> = { ...inputs };
+
+    for (const input of definition?.fileInputs || []) {
+      const value = content[input];
+
+      if (typeof value === 'string') {
+        content[input] = await hashFile(input, value);
+      } else if (Array.isArray(value)) {
+        content[input] = await Promise.all(value.map(item => typeof item === 'string' ? hashFile(input, item) : item));
+      }
+    }
+
+    return crypto.createHash('sha256').update(canonicalJson({ workflow: name, inputs: content })).digest('hex');
+  }
+
+  private check(definition: WorkflowDefinition): void {
+    if (!definition.name || !Array.isArray(definition.steps) || definition.steps.length === 0) {
+      throw new Error(`Workflow definition ${definition.name || '(unnamed)'} needs a name and at least one step`);
+    }
+
+    const ids = new Set<string>();
+
+    for (const step of definition.steps) {
+      if (!step.id || !(step.tool || step.review) || (step.review && (step.tool || step.forEach))) {
+        throw new Error(`Every step of workflow ${definition.name} needs an id and either a tool or a review`);
+      }
+      if (ids.has(step.id) || step.id.includes(':')) {
+        throw new Error(`Invalid or duplicate step id in workflow ${definition.name}: ${step.id}`);
+      }
+      ids.add(step.id);
+    }
+  }
+}
+
+/**
+ * Content hash of an input file, which is read as the servers will read it
+ */
+async function hashFile(input: string, filePath: string): Promise<string> {
+  try {
+    return `sha256:${await sha256File(resolveUploadPath(filePath))}`;
+  } catch (error) {
+    throw new InputFileError(input, filePath, (error as Error).message);
+  }
+}
+
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,262 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ServerConfig from '../config/server.config';
+import { WorkflowEvents } from '../services/workflow-events';
+import { WorkflowStore } from '../services/workflow-store';
+import { WorkflowDefinition } from './workflow-definition';
+import { WorkflowEngine, itemStepName } from './workflow-engine';
+
+// Tool calls go to this mock instead of the MCP servers
+const mockCallTool = jest.fn();
+
+jest.mock('../services/mcp-client', () => ({
+  MCPClient: jest.fn().mockImplementation(() => ({ callTool: mockCallTool }))
+}));
+
+const linear: WorkflowDefinition = {
+  name: 'linear',
+  services: ['formFilling'],
+  inputs: { type: 'object' },
+  steps: [
+    { id: 'download', tool: 'download', input: { url: '{{ inputs.url }}' } },
+    { id: 'extract', tool: 'extract', input: { path: '{{ steps.download.data.path }}' } },
+    { id: 'fill', tool: 'fill', input: { fields: '{{ steps.extract.data.fields }}' } }
+  ]
+};
+
+const perDocument: WorkflowDefinition = {
+  name: 'per-document',
+  services: ['formFilling'],
+  inputs: { type: 'object' },
+  steps: [
+    {
+      id: 'extract',
+      tool: 'extract',
+      forEach: '{{ inputs.documents }}',
+      merge: 'fields',
+      input: { path: '{{ item }}' }
+    },
+    { id: 'fill', tool: 'fill', input: { fields: '{{ steps.extract.data }}' } }
+  ]
+};
+
+const reviewed: WorkflowDefinition = {
+  name: 'reviewed',
+  services: ['formFilling'],
+  inputs: { type: 'object' },
+  steps: [
+    { id: 'extract', tool: 'extract' },
+    { id: 'approve', review: { fields: '{{ steps.extract.data.fields }}' } },
+    { id: 'fill', tool: 'fill', input: { fields: '{{ steps.approve.data.fields }}' } }
+  ]
+};
+
+/**
+ * Answer tool calls by tool name with the given results; an Error is thrown
+ */
+function answer(results: Record<string, (args: any) => any>): void {
+  mockCallTool.mockImplementation(async (name: string, args: any) => {
+    const result = results[name](args);
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  });
+}
+
+function calledTools(): string[] {
+  return mockCallTool.mock.calls.map(([name]) => name);
+}
+
+describe('WorkflowEngine', () => {
+  const savedUploadsDir = ServerConfig.uploadsDir;
+  let dir: string;
+  let store: WorkflowStore;
+  let events: WorkflowEvents;
+  let engine: WorkflowEngine;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-engine-'));
+    // Manifests of finished runs are written under the uploads directory
+    ServerConfig.uploadsDir = dir;
+    store = new WorkflowStore(path.join(dir, 'workflows.sqlite'), 0);
+    events = new WorkflowEvents();
+    engine = new WorkflowEngine(store, events);
+    mockCallTool.mockReset();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    ServerConfig.uploadsDir = savedUploadsDir;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('passes each step the results of earlier steps and stores them', async () => {
+    answer({
+      download: () => ({ path: '/uploads/form.pdf' }),
+      extract: () => ({ fields: ['name'] }),
+      fill: () => ({ filledPath: '/uploads/filled.pdf' })
+    });
+
+    const result = await engine.run(linear, 'wf-1', { url: 'https://example.com/form.pdf' });
+
+    expect(result.status).toBe('success');
+    expect(mockCallTool.mock.calls.map(([name, args]) => [name, args])).toEqual([
+      ['download', { url: 'https://example.com/form.pdf' }],
+      ['extract', { path: '/uploads/form.pdf' }],
+      ['fill', { fields: ['name'] }]
+    ]);
+
+    const stored = await store.getSteps('wf-1');
+    expect(Object.keys(stored)).toEqual(expect.arrayContaining(['download', 'extract', 'fill']));
+    expect(stored.fill.data).toEqual({ filledPath: '/uploads/filled.pdf' });
+    expect(fs.existsSync(path.join(dir, 'manifests', 'wf-1.manifest.json'))).toBe(true);
+  });
+
+  describe('resuming', () => {
+    it('reuses stored results up to the first step that has to run', async () => {
+      answer({
+        download: () => ({ path: '/uploads/form.pdf' }),
+        extract: () => new Error('extraction service unavailable'),
+        fill: () => ({ filledPath: '/uploads/filled.pdf' })
+      });
+
+      const failed = await engine.run(linear, 'wf-2', { url: 'https://example.com/form.pdf' });
+      expect(failed).toMatchObject({ status: 'failure', error: 'extraction service unavailable' });
+      expect(calledTools()).toEqual(['download', 'extract']);
+
+      mockCallTool.mockClear();
+      answer({
+        download: () => ({ path: '/uploads/other.pdf' }),
+        extract: ({ path: pdfPath }) => ({ fields: [pdfPath] }),
+        fill: ({ fields }) => ({ fields })
+      });
+
+      const resumed = await engine.run(linear, 'wf-2', { url: 'https://example.com/form.pdf' });
+
+      expect(resumed.status).toBe('success');
+      expect(calledTools()).toEqual(['extract', 'fill']);
+      // The reused download result feeds the step that ran again
+      expect(resumed.data.fill.data).toEqual({ fields: ['/uploads/form.pdf'] });
+    });
+
+    it('runs every step after the first pending one again', async () => {
+      await store.saveStep('wf-3', 'download', { status: 'success', message: 'Downloaded', data: { path: '/uploads/form.pdf' } });
+      await store.saveStep('wf-3', 'fill', { status: 'success', message: 'Filled', data: { filledPath: '/uploads/stale.pdf' } });
+      answer({
+        extract: () => ({ fields: ['name'] }),
+        fill: () => ({ filledPath: '/uploads/filled.pdf' })
+      });
+
+      const result = await engine.run(linear, 'wf-3', {});
+
+      expect(calledTools()).toEqual(['extract', 'fill']);
+      expect(result.data.fill.data).toEqual({ filledPath: '/uploads/filled.pdf' });
+      expect((await store.getSteps('wf-3')).fill.data).toEqual({ filledPath: '/uploads/filled.pdf' });
+
+      const cached = events.getHistory('wf-3').filter(event => event.data?.cached);
+      expect(cached.map(event => event.step)).toEqual(['download']);
+    });
+  });
+
+  describe('forEach', () => {
+    it('stores each item on its own and merges their data', async () => {
+      answer({
+        extract: ({ path: pdfPath }) => ({ fields: { [path.basename(pdfPath, '.pdf')]: pdfPath } }),
+        fill: ({ fields }) => ({ fields })
+      });
+
+      const result = await engine.run(perDocument, 'wf-4', { documents: ['/uploads/id.pdf', '/uploads/lease.pdf'] });
+
+      expect(result.status).toBe('success');
+      expect(result.data.extract.data).toEqual({ id: '/uploads/id.pdf', lease: '/uploads/lease.pdf' });
+
+      const stored = await store.getSteps('wf-4');
+      expect(stored[itemStepName('extract', '/uploads/id.pdf')].data).toEqual({ fields: { id: '/uploads/id.pdf' } });
+      expect(stored[itemStepName('extract', '/uploads/lease.pdf')].data).toEqual({ fields: { lease: '/uploads/lease.pdf' } });
+    });
+
+    it('keeps successful items and retries only the failed ones', async () => {
+      answer({
+        extract: ({ path: pdfPath }) => pdfPath === '/uploads/lease.pdf'
+          ? new Error('unreadable scan')
+          : { fields: { id: true } },
+        fill: ({ fields }) => ({ fields })
+      });
+
+      const first = await engine.run(perDocument, 'wf-5', { documents: ['/uploads/id.pdf', '/uploads/lease.pdf'] });
+
+      // One item succeeding is enough for the step
+      expect(first.status).toBe('success');
+      expect(first.data.extract.data).toEqual({ id: true });
+
+      const stored = await store.getSteps('wf-5');
+      expect(stored[itemStepName('extract', '/uploads/id.pdf')]).toBeDefined();
+      expect(stored[itemStepName('extract', '/uploads/lease.pdf')]).toBeUndefined();
+
+      mockCallTool.mockClear();
+      answer({
+        extract: () => ({ fields: { lease: true } }),
+        fill: ({ fields }) => ({ fields })
+      });
+
+      const second = await engine.run(perDocument, 'wf-5', { documents: ['/uploads/id.pdf', '/uploads/lease.pdf'] });
+
+      expect(mockCallTool.mock.calls.map(([name, args]) => [name, args.path])).toEqual([
+        ['extract', '/uploads/lease.pdf'],
+        ['fill', undefined]
+      ]);
+      expect(second.data.fill.data).toEqual({ fields: { id: true, lease: true } });
+    });
+
+    it('fails the step when every item failed', async () => {
+      answer({ extract: ({ path: pdfPath }) => new Error(`cannot read ${pdfPath}`) });
+
+      const result = await engine.run(perDocument, 'wf-6', { documents: ['/uploads/a.pdf', '/uploads/b.pdf'] });
+
+      expect(result).toMatchObject({
+        status: 'failure',
+        error: 'cannot read /uploads/a.pdf; cannot read /uploads/b.pdf'
+      });
+      expect(calledTools()).toEqual(['extract', 'extract']);
+    });
+  });
+
+  describe('review', () => {
+    it('waits for approval and continues with the approved data', async () => {
+      answer({
+        extract: () => ({ fields: { name: 'Jane Doe', city: 'Sprngfield' } }),
+        fill: ({ fields }) => ({ fields })
+      });
+
+      const paused = await engine.run(reviewed, 'wf-7', {});
+
+      expect(paused).toMatchObject({ status: 'awaiting_review', data: { fields: { name: 'Jane Doe', city: 'Sprngfield' } } });
+      expect(calledTools()).toEqual(['extract']);
+      expect(events.getHistory('wf-7').map(event => event.type)).toContain('awaiting-review');
+
+      const review = await engine.getPendingReview(reviewed, 'wf-7', {});
+      expect(review).toEqual({ step: 'approve', data: { fields: { name: 'Jane Doe', city: 'Sprngfield' } } });
+
+      await engine.submitReview(reviewed, 'wf-7', review!, { fields: { name: 'Jane Doe', city: 'Springfield' } });
+      mockCallTool.mockClear();
+
+      const finished = await engine.run(reviewed, 'wf-7', {});
+
+      expect(finished.status).toBe('success');
+      expect(calledTools()).toEqual(['fill']);
+      expect(finished.data.fill.data).toEqual({ fields: { name: 'Jane Doe', city: 'Springfield' } });
+      expect((await store.getSteps('wf-7')).approve.review.edited).toEqual(['fields']);
+    });
+  });
+});
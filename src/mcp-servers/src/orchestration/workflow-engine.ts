@@ -0,0 +1,417 @@
+import serviceRegistry from '../config/service.registry';
+import { MCPClient } from '../services/mcp-client';
+import { WorkflowStore } from '../services/workflow-store';
+import { WorkflowEvents } from '../services/workflow-events';
+import { BindingScope, isEmpty, resolveBindings } from './bindings';
+import { WorkflowDefinition, WorkflowStepDefinition } from './workflow-definition';
+import { StepTrace, WorkflowManifestWriter } from './workflow-manifest';
+
+export interface WorkflowResult {
+  status: 'success' | 'failure' | 'awaiting_review';
+  message: string;
+  data?: any;
+  error?: string;
+  provenance?: Record<string, any>;
+}
+
+export interface PendingReview {
+  step: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Name under which one forEach item's result is stored
+ */
+export function itemStepName(stepId: string, item: any): string {
+  return `${stepId}:${typeof item === 'string' ? item : JSON.stringify(item)}`;
+}
+
+/**
+ * Runs any workflow definition. Each step's result is stored under the
+ * step's id, and results already stored for the workflow are reused until
+ * the first step that has to run; every step after it runs again, so a
+ * failed or interrupted workflow resumes where it stopped. forEach items
+ * are stored one by one and only depend on their own results. A review step
+ * ends the run until its data is approved through submitReview, after which
+ * the workflow is run again and picks up from there. Every run that ends,
+ * successfully or not, leaves a manifest of what it used and produced.
+ */
+export class WorkflowEngine {
+  private store: WorkflowStore;
+  private events: WorkflowEvents;
+  private clients: Map<string, MCPClient>;
+  private manifests: WorkflowManifestWriter;
+
+  constructor(store: WorkflowStore, events: WorkflowEvents) {
+    // Step results are persisted so they survive restarts
+    this.store = store;
+
+    // Step progress is published for live status streams
+    this.events = events;
+
+    this.clients = new Map();
+    this.manifests = new WorkflowManifestWriter(store);
+  }
+
+  public async run(
+    definition: WorkflowDefinition,
+    workflowId: string,
+    inputs: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<WorkflowResult> {
+    const scope: BindingScope = {
+      workflowId,
+      inputs,
+      steps: {},
+      now: Date.now(),
+      timestamp: new Date().toISOString()
+    };
+    const trace: Record<string, StepTrace> = {};
+
+    const result = await this.execute(definition, workflowId, scope, trace, signal);
+
+    if (result.status !== 'awaiting_review') {
+      try {
+        const manifestPath = await this.manifests.write(definition, workflowId, scope, trace, result.status, result.error);
+        console.log(`[Workflow Engine] Wrote the manifest of workflow ${workflowId} to ${manifestPath}`);
+      } catch (error) {
+        // The run's result stands without its manifest
+        console.error(`[Workflow Engine] Could not write the manifest of workflow ${workflowId}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  private async execute(
+    definition: WorkflowDefinition,
+    workflowId: string,
+    scope: BindingScope,
+    trace: Record<string, StepTrace>,
+    signal?: AbortSignal
+  ): Promise<WorkflowResult> {
+    try {
+      console.log(`[Workflow Engine] Starting ${definition.name} workflow ${workflowId}`);
+
+      const stored = await this.store.getSteps(workflowId);
+      let rerunning = false;
+
+      for (const [index, step] of definition.steps.entries()) {
+        if (step.when && isEmpty(resolveBindings(step.when, scope))) {
+          console.log(`[Workflow Engine] Step ${index + 1}: Skipping ${step.id}`);
+          trace[step.id] = { status: 'skipped' };
+          this.events.emit(workflowId, 'step-completed', `Skipped ${step.id}`, { step: step.id, data: { skipped: true } });
+          continue;
+        }
+
+        if (!step.forEach && stored[step.id] && !rerunning) {
+          console.log(`[Workflow Engine] Step ${index + 1}: Reusing the stored ${step.id} result`);
+          scope.steps[step.id] = stored[step.id];
+          trace[step.id] = { status: 'reused' };
+          this.events.emit(workflowId, 'step-completed', `Reusing the stored ${step.id} result`, {
+            step: step.id,
+            data: { cached: true }
+          });
+          continue;
+        }
+
+        if (step.review) {
+          console.log(`[Workflow Engine] Step ${index + 1}: Waiting for review of ${step.id}`);
+          const message = this.message(step, 'started', scope) || `Waiting for review of ${step.id}`;
+          this.events.emit(workflowId, 'awaiting-review', message, { step: step.id });
+          trace[step.id] = { status: 'awaiting_review' };
+
+          // An approval given before earlier steps ran again no longer holds
+          if (stored[step.id]) {
+            await this.store.deleteSteps(workflowId, [step.id]);
+          }
+
+          return { status: 'awaiting_review', message, data: resolveBindings(step.review, scope) };
+        }
+
+        console.log(`[Workflow Engine] Step ${index + 1}: Running ${step.id} with ${step.tool}`);
+        this.events.emit(workflowId, 'step-started', this.message(step, 'started', scope) || `Running ${step.id}`, {
+          step: step.id
+        });
+
+        let result: WorkflowResult;
+        let ran = true;
+
+        if (step.forEach) {
+          const items = await this.runItems(definition, workflowId, step, scope, stored, signal);
+          ran = items.ran;
+          rerunning = rerunning || items.ran;
+          result = items.result;
+        } else {
+          rerunning = true;
+          result = await this.runStep(definition, step, scope, signal);
+        }
+
+        trace[step.id] = result.status === 'failure'
+          ? { status: 'failed', error: result.error }
+          : { status: ran ? 'ran' : 'reused' };
+
+        if (result.status === 'failure') {
+          console.error(`[Workflow Engine] Step ${step.id} of workflow ${workflowId} failed:`, result.error);
+
+          if (step.onError === 'continue') {
+            scope.steps[step.id] = result;
+            continue;
+          }
+
+          return this.failure(definition, result, scope);
+        }
+
+        scope.steps[step.id] = result;
+
+        // Persist the intermediate result
+        await this.store.saveStep(workflowId, step.id, result);
+
+        if (step.artifact) {
+          const artifactPath = resolveBindings(step.artifact.path, { ...scope, result: result.data });
+          if (artifactPath) {
+            await this.store.addArtifact(workflowId, step.artifact.kind, artifactPath);
+          }
+        }
+
+        this.events.emit(workflowId, 'step-completed', result.message, { step: step.id });
+      }
+
+      return {
+        status: 'success',
+        message: `${definition.name} workflow completed successfully`,
+        data: definition.output ? resolveBindings(definition.output, scope) : scope.steps
+      };
+    } catch (error) {
+      console.error(`[Workflow Engine] Workflow ${workflowId} error:`, error);
+      return this.failure(definition, {
+        status: 'failure',
+        message: `${definition.name} workflow failed`,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, scope);
+    }
+  }
+
+  /**
+   * Result of a workflow for status requests, once its last step is stored
+   */
+  public async getResult(definition: WorkflowDefinition, workflowId: string): Promise<any> {
+    const steps = await this.store.getSteps(workflowId);
+    const lastStep = definition.steps[definition.steps.length - 1];
+
+    if (!steps[lastStep.id]) {
+      return null;
+    }
+
+    return definition.result
+      ? resolveBindings(definition.result, { steps, timestamp: new Date().toISOString() })
+      : steps;
+  }
+
+  /**
+   * Listing fields of a workflow, from whichever steps it has stored so far
+   */
+  public async getSummary(
+    definition: WorkflowDefinition,
+    workflowId: string,
+    inputs: Record<string, any>
+  ): Promise<Record<string, any>> {
+    if (!definition.summary) {
+      return {};
+    }
+
+    const steps = await this.store.getSteps(workflowId);
+    return resolveBindings(definition.summary, { inputs, steps, timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * The review step a workflow stopped at, with the data to review
+   */
+  public async getPendingReview(
+    definition: WorkflowDefinition,
+    workflowId: string,
+    inputs: Record<string, any>
+  ): Promise<PendingReview | null> {
+    const steps = await this.store.getSteps(workflowId);
+    const step = definition.steps.find(candidate => candidate.review && !steps[candidate.id]);
+
+    if (!step) {
+      return null;
+    }
+
+    const scope: BindingScope = { workflowId, inputs, steps, now: Date.now(), timestamp: new Date().toISOString() };
+    return { step: step.id, data: resolveBindings(step.review, scope) };
+  }
+
+  /**
+   * Store the approved review data as the review step's result. Edited
+   * values replace the ones put up for review.
+   */
+  public async submitReview(
+    definition: WorkflowDefinition,
+    workflowId: string,
+    review: PendingReview,
+    edits: Record<string, any>,
+    comment?: string
+  ): Promise<void> {
+    const step = definition.steps.find(candidate => candidate.id === review.step)!;
+    const data = { ...review.data, ...edits };
+    const scope: BindingScope = { workflowId, steps: {}, result: data, now: Date.now(), timestamp: new Date().toISOString() };
+
+    await this.store.saveStep(workflowId, step.id, {
+      status: 'success',
+      message: this.message(step, 'completed', scope) || `Approved ${step.id}`,
+      data,
+      review: {
+        edited: Object.keys(edits),
+        ...(comment && { comment }),
+        reviewedAt: new Date().toISOString()
+      }
+    });
+  }
+
+  private async runStep(
+    definition: WorkflowDefinition,
+    step: WorkflowStepDefinition,
+    scope: BindingScope,
+    signal?: AbortSignal
+  ): Promise<WorkflowResult> {
+    try {
+      const toolResult = await this.getClient(definition).callTool(
+        step.tool!,
+        resolveBindings(step.input || {}, scope),
+        { signal }
+      );
+      const resultScope = { ...scope, result: toolResult };
+
+      return {
+        status: 'success',
+        message: this.message(step, 'completed', resultScope) || `Finished ${step.id}`,
+        data: step.output ? resolveBindings(step.output, resultScope) : toolResult,
+        ...(step.provenance && { provenance: resolveBindings(step.provenance, resultScope) })
+      };
+    } catch (error) {
+      return {
+        status: 'failure',
+        message: this.message(step, 'failed', scope) || `Step ${step.id} failed`,
+        error: (error as Error).message
+      };
+    }
+  }
+
+  /**
+   * Run a forEach step's items side by side, reusing stored item results.
+   * Failed items are retried on the next run.
+   */
+  private async runItems(
+    definition: WorkflowDefinition,
+    workflowId: string,
+    step: WorkflowStepDefinition,
+    scope: BindingScope,
+    stored: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<{ result: WorkflowResult; ran: boolean }> {
+    const items = resolveBindings(step.forEach, scope);
+
+    if (!Array.isArray(items)) {
+      return {
+        result: { status: 'failure', message: `Step ${step.id} failed`, error: `forEach of ${step.id} is not a list` },
+        ran: false
+      };
+    }
+
+    let ran = false;
+    let done = 0;
+
+    const results = await Promise.all(items.map(async (item) => {
+      const itemScope = { ...scope, item };
+      const name = itemStepName(step.id, item);
+      const label = this.message(step, 'item', itemScope) || String(item);
+      let result: WorkflowResult = stored[name];
+      const cached = !!result;
+
+      if (!cached) {
+        ran = true;
+        result = await this.runStep(definition, step, itemScope, signal);
+
+        if (result.status === 'success') {
+          result.message = `Finished ${label}`;
+          await this.store.saveStep(workflowId, name, result);
+        }
+      }
+
+      done++;
+      this.events.emit(workflowId, 'step-progress', `${cached ? 'Reusing' : result.status === 'success' ? 'Finished' : 'Failed'} ${label}`, {
+        step: step.id,
+        data: { item: label, status: result.status, cached, completed: done, total: items.length }
+      });
+
+      return result;
+    }));
+
+    const succeeded = results.filter(result => result.status === 'success');
+
+    if (items.length > 0 && succeeded.length === 0) {
+      return {
+        result: {
+          status: 'failure',
+          message: this.message(step, 'failed', scope) || `Step ${step.id} failed`,
+          error: results.map(result => result.error).filter(Boolean).join('; ')
+        },
+        ran
+      };
+    }
+
+    // Later items override earlier ones
+    const data = step.merge
+      ? Object.assign({}, ...succeeded.map(result => result.data?.[step.merge!]))
+      : succeeded.map(result => result.data);
+
+    return {
+      result: {
+        status: 'success',
+        message: this.message(step, 'completed', { ...scope, result: data }) || `Finished ${step.id}`,
+        data
+      },
+      ran
+    };
+  }
+
+  private failure(definition: WorkflowDefinition, result: WorkflowResult, scope: BindingScope): WorkflowResult {
+    const { onFailure } = definition;
+
+    if (onFailure && (!onFailure.when || !isEmpty(resolveBindings(onFailure.when, scope)))) {
+      return { ...result, data: { ...result.data, ...resolveBindings(onFailure.data, scope) } };
+    }
+
+    return result;
+  }
+
+  private message(
+    step: WorkflowStepDefinition,
+    kind: 'started' | 'completed' | 'failed' | 'item',
+    scope: BindingScope
+  ): string | undefined {
+    const template = step.messages?.[kind];
+    return template ? resolveBindings(template, scope) : undefined;
+  }
+
+  /**
+   * Tools are discovered by name from the services the definition lists
+   */
+  private getClient(definition: WorkflowDefinition): MCPClient {
+    let client = this.clients.get(definition.name);
+
+    if (!client) {
+      const services = definition.services.map(key => serviceRegistry.get(key));
+      client = new MCPClient(services);
+      this.clients.set(definition.name, client);
+
+      console.log(`[Workflow Engine] ${definition.name} uses servers:`,
+        services.map(service => `${service.key}: ${service.url}`).join(', ')
+      );
+    }
+
+    return client;
+  }
+}
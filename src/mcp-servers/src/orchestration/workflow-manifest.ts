@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import ServerConfig from '../config/server.config';
+import { resolveUploadPath } from '../services/upload-path';
+import { WorkflowStore } from '../services/workflow-store';
+import { BindingScope, resolveBindings } from './bindings';
+import { digestFile } from './file-hash';
+import { WorkflowDefinition } from './workflow-definition';
+
+export const MANIFEST_VERSION = 1;
+
+export const MANIFEST_ARTIFACT_KIND = 'manifest';
+
+/**
+ * What happened to a step in one run: its result was reused from an
+ * earlier run, it ran now, failed, was skipped by its condition or is
+ * waiting for review. Steps after the one the run stopped at are left out.
+ */
+export interface StepTrace {
+  status: 'reused' | 'ran' | 'failed' | 'skipped' | 'awaiting_review';
+  error?: string;
+}
+
+/**
+ * Writes the manifest of a workflow run: the inputs and the hashes of its
+ * input files, which providers, models and prompt versions produced each
+ * step, the review that approved the data and the hashes of every file the
+ * run produced. Together they are what is needed to reproduce or audit the
+ * filled form.
+ */
+export class WorkflowManifestWriter {
+  private store: WorkflowStore;
+
+  constructor(store: WorkflowStore) {
+    this.store = store;
+  }
+
+  /**
+   * Write the manifest for a finished run, record it as an artifact and
+   * return its path
+   */
+  public async write(
+    definition: WorkflowDefinition,
+    workflowId: string,
+    scope: BindingScope,
+    trace: Record<string, StepTrace>,
+    status: string,
+    error?: string
+  ): Promise<string> {
+    const stored = await this.store.getSteps(workflowId);
+    const artifacts = (await this.store.getArtifacts(workflowId))
+      .filter(artifact => artifact.kind !== MANIFEST_ARTIFACT_KIND);
+    const output = definition.manifest?.nextTo
+      ? artifacts.filter(artifact => artifact.kind === definition.manifest!.nextTo).pop()
+      : undefined;
+
+    const manifest = {
+      manifestVersion: MANIFEST_VERSION,
+      workflowId,
+      workflow: definition.name,
+      status,
+      ...(error && { error }),
+      startedAt: scope.timestamp,
+      finishedAt: new Date().toISOString(),
+      inputs: scope.inputs,
+      inputFiles: await this.describeInputFiles(definition, scope.inputs),
+      ...resolveBindings(definition.manifest?.data || {}, scope),
+      steps: definition.steps.filter(step => trace[step.id]).map(step => {
+        const result = scope.steps[step.id];
+        const items = step.forEach
+          ? Object.entries(stored)
+            .filter(([name]) => name.startsWith(`${step.id}:`))
+            .map(([name, itemResult]) => ({ item: name.slice(step.id.length + 1), provenance: itemResult.provenance }))
+          : undefined;
+
+        return {
+          id: step.id,
+          ...(step.tool ? { tool: step.tool } : { review: true }),
+          ...trace[step.id],
+          provenance: result?.provenance,
+          items,
+          approval: result?.review
+        };
+      }),
+      output: output && await digestFile(output.path),
+      artifacts: await Promise.all(artifacts.map(async artifact => ({
+        kind: artifact.kind,
+        ...await digestFile(artifact.path)
+      })))
+    };
+
+    const manifestPath = output
+      ? path.join(path.dirname(output.path), `${path.parse(output.path).name}.manifest.json`)
+      : path.join(ServerConfig.uploadsDir, 'manifests', `${workflowId}.manifest.json`);
+
+    await fs.promises.mkdir(path.dirname(manifestPath), { recursive: true });
+    await fs.promises.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+    await this.store.addArtifact(workflowId, MANIFEST_ARTIFACT_KIND, manifestPath);
+
+    return manifestPath;
+  }
+
+  private async describeInputFiles(
+    definition: WorkflowDefinition,
+    inputs: Record<string, any>
+  ): Promise<Record<string, any>> {
+    const files: Record<string, any> = {};
+
+    for (const input of definition.fileInputs || []) {
+      const value = inputs[input];
+
+      // Relative paths name files in the uploads directory, as for the servers
+      if (typeof value === 'string') {
+        files[input] = await digestFile(resolveUploadPath(value));
+      } else if (Array.isArray(value)) {
+        files[input] = await Promise.all(value
+          .filter(item => typeof item === 'string')
+          .map(item => digestFile(resolveUploadPath(item))));
+      }
+    }
+
+    return files;
+  }
+}
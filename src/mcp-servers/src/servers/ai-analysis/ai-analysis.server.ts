@@ -1,56 +1,154 @@
 import { Request, Response } from 'express';
 import { BaseMCPServer } from '../base.server';
-import axios from 'axios';
 import fs from 'fs';
-import path from 'path';
+import { FieldData } from '../../types/field-data';
+import { getFormInfo } from '../../services/pdf-reader';
 import ServerConfig from '../../config/server.config';
-
-// Configuration for API providers
-interface ApiConfig {
-  apiKey: string;
-  baseUrl: string;
-}
+import { llmProviders } from '../../services/llm/provider-registry';
+import { llmErrorDetails, llmRouter } from '../../services/llm/provider-router';
+import { analysisCache, CachedResult } from '../../services/analysis-cache';
+import { LLMProvider } from '../../services/llm/llm-provider';
+import { completeStructured, LLMOutputError } from '../../services/llm/structured-output';
+import { UploadPathError } from '../../services/upload-path';
+import { NativeFieldInventory } from './native-field-inventory';
+import { AnnotationSummary, FieldAnnotation, reconcileFieldAnnotations } from './field-annotations';
+
+// An LLM provider from the registry, or 'native' to read the AcroForm
+export type AnalysisProvider = string;
+
+// 'ai' lets the provider find the fields, 'hybrid' reads them natively and
+// only asks the provider to annotate them
+export type AnalysisMode = 'ai' | 'hybrid';
 
 interface AnalysisRequest {
   pdfPath: string;
-  provider?: 'perplexity' | 'openai';
+  provider?: AnalysisProvider;
+  // Providers to try in order, instead of the task's configured chain
+  providers?: AnalysisProvider[];
+  mode?: AnalysisMode;
   options?: Record<string, any>;
+  // Ask the provider again instead of using a cached answer
+  refresh?: boolean;
 }
 
-interface FieldData {
-  name: string;
-  type: string;
-  description: string;
-  location?: {
-    page: number;
-    coordinates?: number[];
-  };
-}
+const DEFAULT_ANNOTATION_BATCH_SIZE = 60;
+
+// Cache task of field analyses
+const CACHE_TASK = 'extract-fields';
+
+// Reported with every result so a run can be traced to the prompt that
+// produced it; bump a version whenever its prompt changes
+const PROMPT_VERSIONS = {
+  extract: 'extract-fields/2',
+  annotate: 'annotate-fields/1'
+};
+
+const FIELD_EXTRACTION_PROMPT = `
+  Analyze this PDF form and identify all empty fields that need to be filled out.
+  For each field, extract:
+  1. Field name or identifier
+  2. Field type (text, checkbox, date, number, etc.)
+  3. A brief description of what information should be entered
+  4. If possible, the page number where the field appears
+
+  Format your response as a JSON object of the form {"fields": [...]} with one object per field.
+  Only include empty fields that need to be filled in, not fields that already contain data.
+`;
+
+// What the field extraction prompt must be answered with
+const FIELD_LIST_SCHEMA = {
+  type: 'object',
+  required: ['fields'],
+  properties: {
+    fields: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          type: { type: 'string', default: 'text' },
+          description: { type: 'string', default: '' },
+          location: {
+            type: 'object',
+            required: ['page'],
+            properties: { page: { type: 'integer', minimum: 1 } }
+          },
+          options: { type: 'array', items: { type: 'string' } },
+          required: { type: 'boolean' },
+          context_clues: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    }
+  }
+};
+
+const DATA_TYPES = ['text', 'name', 'date', 'phone', 'email', 'address', 'currency', 'number', 'boolean', 'signature'];
+
+// What the annotation prompt must be answered with
+const ANNOTATION_SCHEMA = {
+  type: 'object',
+  required: ['fields'],
+  properties: {
+    fields: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'description'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          description: { type: 'string' },
+          dataType: { type: 'string', enum: DATA_TYPES },
+          group: { type: 'string' }
+        }
+      }
+    }
+  }
+};
 
 export class AIAnalysisServer extends BaseMCPServer {
-  private perplexityConfig: ApiConfig;
-  private openaiConfig: ApiConfig;
+  private nativeInventory: NativeFieldInventory;
 
   constructor() {
     super('AI-Analysis-MCP-Server');
 
-    // Initialize API configurations
-    this.perplexityConfig = {
-      apiKey: process.env.PERPLEXITY_API_KEY || '',
-      baseUrl: 'https://api.perplexity.ai'
-    };
-
-    this.openaiConfig = {
-      apiKey: process.env.OPENAI_API_KEY || '',
-      baseUrl: 'https://api.openai.com/v1'
-    };
+    this.nativeInventory = new NativeFieldInventory();
   }
 
   protected setupRoutes(): void {
     this.app.post('/extract-fields', this.extractFieldsHandler.bind(this));
+    this.app.delete('/cache', this.invalidateCacheHandler.bind(this));
     this.app.get('/status', this.statusHandler.bind(this));
   }
 
+  protected setupTools(): void {
+    this.registerTool({
+      name: 'extract-fields',
+      description: 'Identify the fillable fields of a PDF form',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pdfPath: { type: 'string', description: 'Path to the PDF, absolute or relative to the uploads directory' },
+          provider: { type: 'string', enum: [...llmProviders.names(), 'native'], description: 'AI provider used for the analysis, or "native" to read the AcroForm directly' },
+          providers: { type: 'array', items: { type: 'string', enum: [...llmProviders.names(), 'native'] }, description: 'Providers to try in order until one succeeds' },
+          mode: { type: 'string', enum: ['ai', 'hybrid'], description: '"hybrid" reads the AcroForm natively and asks the provider only to annotate those fields' },
+          options: { type: 'object', description: 'Provider specific options such as max_tokens, model or batchSize' },
+          refresh: { type: 'boolean', description: 'Analyse the form again instead of using a cached answer' }
+        },
+        required: ['pdfPath']
+      },
+      handler: async (args, { signal }) => {
+        const fullPath = this.resolveUploadPath(args.pdfPath);
+
+        if (!fs.existsSync(fullPath)) {
+          throw new Error(`PDF file not found: ${fullPath}`);
+        }
+
+        return this.analyzeFields(fullPath, args as AnalysisRequest, signal);
+      }
+    });
+  }
+
   private async extractFieldsHandler(req: Request, res: Response): Promise<void> {
     try {
       const analysisRequest = req.body as AnalysisRequest;
@@ -60,6 +158,12 @@ export class AIAnalysisServer extends BaseMCPServer {
         return;
       }
 
+      const providerError = llmProviders.checkRequested(analysisRequest.provider, analysisRequest.providers, ['native']);
+      if (providerError) {
+        res.status(400).json({ error: providerError });
+        return;
+      }
+
       // Validate request
       const isValid = await this.validateRequest(req);
       if (!isValid) {
@@ -68,9 +172,7 @@ export class AIAnalysisServer extends BaseMCPServer {
       }
 
       // Check if file exists
-      const fullPath = path.isAbsolute(analysisRequest.pdfPath)
-        ? analysisRequest.pdfPath
-        : path.resolve(ServerConfig.uploadsDir, analysisRequest.pdfPath);
+      const fullPath = this.resolveUploadPath(analysisRequest.pdfPath);
 
       if (!fs.existsSync(fullPath)) {
         res.status(404).json({
@@ -80,171 +182,289 @@ export class AIAnalysisServer extends BaseMCPServer {
         return;
       }
 
-      // Choose API provider (default to Perplexity)
-      const provider = analysisRequest.provider || 'perplexity';
-
-      // Extract PDF fields
-      const fields = await this.extractPdfFields(fullPath, provider, analysisRequest.options);
-
-      res.json({
-        status: 'success',
-        provider,
-        fields,
-        timestamp: new Date().toISOString()
-      });
+      res.json(await this.analyzeFields(fullPath, analysisRequest));
     } catch (error) {
+      if (error instanceof UploadPathError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
       this.logError(error as Error);
-      res.status(500).json({
+      // 502 when the model kept answering with output that failed validation
+      res.status(error instanceof LLMOutputError ? 502 : 500).json({
         error: 'Field extraction failed',
-        message: (error as Error).message
+        message: (error as Error).message,
+        ...llmErrorDetails(error)
       });
     }
   }
 
+  private async analyzeFields(
+    fullPath: string,
+    analysisRequest: AnalysisRequest,
+    signal?: AbortSignal
+  ): Promise<Record<string, any>> {
+    // Providers named by the request, else the task's chain (LLM_PROVIDER by default)
+    const requested = analysisRequest.providers?.length ? analysisRequest.providers : analysisRequest.provider;
+    const annotators = llmRouter.chainFor('annotate-fields', requested).filter(provider => provider !== 'native');
+    const mode = analysisRequest.mode === 'hybrid' && annotators.length > 0 ? 'hybrid' : 'ai';
+    const form = await getFormInfo(fullPath);
+    const documentSha256 = await analysisCache.documentHash(fullPath);
+
+    if (mode === 'hybrid') {
+      // Dynamic XFA forms describe their fields in the XFA template only
+      if (form.type === 'xfa') {
+        throw new Error('Dynamic XFA form has no AcroForm fields to read; use an AI provider in "ai" mode');
+      }
+
+      const routed = await llmRouter.run(
+        annotators,
+        (provider, callSignal) => this.cached(
+          { documentSha256, provider, promptVersion: PROMPT_VERSIONS.annotate, mode },
+          analysisRequest,
+          () => this.extractHybridFields(fullPath, llmProviders.get(provider), analysisRequest.options, callSignal),
+          ({ fields, summary }) => fields.length === 0 || summary.annotated > 0
+        ),
+        {
+          mimeType: 'application/pdf',
+          reject: ({ value: { fields, summary } }) => fields.length > 0 && summary.annotated === 0 ? 'no field was annotated' : undefined,
+          signal
+        }
+      );
+
+      return {
+        status: 'success',
+        provider: routed.provider,
+        model: llmProviders.get(routed.provider).modelFor(analysisRequest.options),
+        promptVersion: PROMPT_VERSIONS.annotate,
+        attempts: routed.attempts,
+        cache: routed.result.cache,
+        documentSha256,
+        mode,
+        form,
+        fields: routed.result.value.fields,
+        annotationSummary: routed.result.value.summary,
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    // Extract PDF fields
+    const routed = await llmRouter.run(
+      llmRouter.chainFor('extract-fields', requested),
+      (provider, callSignal) => this.cached(
+        { documentSha256, provider, promptVersion: PROMPT_VERSIONS.extract, mode },
+        analysisRequest,
+        () => this.extractPdfFields(fullPath, provider, analysisRequest.options, callSignal),
+        fields => fields.length > 0
+      ),
+      {
+        mimeType: 'application/pdf',
+        // Dynamic XFA forms describe their fields in the XFA template only
+        skip: provider => provider === 'native' && form.type === 'xfa' ? 'dynamic XFA form has no AcroForm fields' : undefined,
+        reject: ({ value: fields }) => fields.length === 0 ? 'no fields found' : undefined,
+        signal
+      }
+    );
+
+    return {
+      status: 'success',
+      provider: routed.provider,
+      ...(routed.provider !== 'native' && {
+        model: llmProviders.get(routed.provider).modelFor(analysisRequest.options),
+        promptVersion: PROMPT_VERSIONS.extract
+      }),
+      attempts: routed.attempts,
+      cache: routed.result.cache,
+      documentSha256,
+      mode,
+      form,
+      fields: routed.result.value,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * The provider's cached analysis of this form, or a new one. Empty
+   * answers are not kept, and the native reader is not cached.
+   */
+  private async cached<T>(
+    key: { documentSha256: string; provider: AnalysisProvider; promptVersion: string; mode: AnalysisMode },
+    analysisRequest: AnalysisRequest,
+    compute: () => Promise<T>,
+    store: (value: T) => boolean
+  ): Promise<CachedResult<T>> {
+    if (key.provider === 'native') {
+      return { value: await compute(), cache: 'bypass' };
+    }
+
+    return analysisCache.remember(
+      {
+        task: CACHE_TASK,
+        documentSha256: key.documentSha256,
+        provider: key.provider,
+        model: llmProviders.get(key.provider).modelFor(analysisRequest.options),
+        promptVersion: key.promptVersion,
+        variant: { mode: key.mode }
+      },
+      compute,
+      { refresh: analysisRequest.refresh, store }
+    );
+  }
+
   private async extractPdfFields(
     pdfPath: string,
-    provider: 'perplexity' | 'openai',
-    options?: Record<string, any>
+    provider: AnalysisProvider,
+    options?: Record<string, any>,
+    signal?: AbortSignal
   ): Promise<FieldData[]> {
-    // Read the PDF as base64 for API submission
-    const pdfBuffer = fs.readFileSync(pdfPath);
-    const base64Pdf = pdfBuffer.toString('base64');
+    if (provider === 'native') {
+      console.log(`[${this.serverName}] Reading AcroForm fields from ${pdfPath}`);
+      return this.nativeInventory.extract(pdfPath);
+    }
+
+    const llm = llmProviders.get(provider);
 
     console.log(`[${this.serverName}] Extracting fields from ${pdfPath} using ${provider}`);
 
-    if (provider === 'perplexity') {
-      return this.extractWithPerplexity(base64Pdf, options);
-    } else {
-      return this.extractWithOpenAI(base64Pdf, options);
-    }
+    const { value } = await completeStructured<{ fields: FieldData[] }>(llm, {
+      prompt: FIELD_EXTRACTION_PROMPT,
+      task: PROMPT_VERSIONS.extract,
+      document: { data: fs.readFileSync(pdfPath), mimeType: 'application/pdf' },
+      json: true,
+      options,
+      signal
+    }, FIELD_LIST_SCHEMA);
+
+    return value.fields;
   }
 
-  private async extractWithPerplexity(base64Pdf: string, options?: Record<string, any>): Promise<FieldData[]> {
-    try {
-      const apiKey = this.perplexityConfig.apiKey;
+  /**
+   * Read the fields natively, then have the provider describe them in
+   * batches. The native list stays authoritative.
+   */
+  private async extractHybridFields(
+    pdfPath: string,
+    llm: LLMProvider,
+    options?: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<{ fields: FieldData[]; summary: AnnotationSummary }> {
+    const nativeFields = await this.nativeInventory.extract(pdfPath);
+
+    console.log(`[${this.serverName}] Annotating ${nativeFields.length} AcroForm fields from ${pdfPath} using ${llm.name}`);
+
+    if (nativeFields.length === 0) {
+      return {
+        fields: [],
+        summary: { annotated: 0, unannotated: [], discarded: [] }
+      };
+    }
 
-      if (!apiKey) {
-        throw new Error('Perplexity API key not configured');
-      }
+    if (!llm.isConfigured()) {
+      throw new Error(`The ${llm.name} provider is not configured`);
+    }
 
-      const prompt = `
-        Analyze this PDF form and identify all empty fields that need to be filled out.
-        For each field, extract:
-        1. Field name or identifier
-        2. Field type (text, checkbox, date, number, etc.)
-        3. A brief description of what information should be entered
-        4. If possible, the page number where the field appears
+    const pdf = fs.readFileSync(pdfPath);
+    const { batchSize = DEFAULT_ANNOTATION_BATCH_SIZE, ...providerOptions } = options || {};
+    const annotations: FieldAnnotation[] = [];
 
-        Format your response as a JSON array with one object per field.
-        Only include empty fields that need to be filled in, not fields that already contain data.
-      `;
+    for (let i = 0; i < nativeFields.length; i += batchSize) {
+      const batch = nativeFields.slice(i, i + batchSize);
 
-      const response = await axios.post(
-        `${this.perplexityConfig.baseUrl}/sonar/api/v1/query`,
-        {
-          model: "sonar-medium-online",
-          document: base64Pdf,
-          query: prompt,
-          override_settings: options || {}
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+      try {
+        annotations.push(...await this.annotateFields(pdf, batch, llm, providerOptions, signal));
+      } catch (error) {
+        signal?.throwIfAborted();
 
-      // Parse and validate the response
-      if (response.data && response.data.answer) {
-        try {
-          // Extract the JSON from the response text if needed
-          const jsonMatch = response.data.answer.match(/\[.*\]/s);
-          if (jsonMatch) {
-            return JSON.parse(jsonMatch[0]);
-          }
-
-          // If no JSON array detected, try to parse the entire answer
-          const fields = JSON.parse(response.data.answer);
-          return Array.isArray(fields) ? fields : [];
-        } catch (parseError) {
-          console.error(`[${this.serverName}] Error parsing Perplexity response:`, parseError);
-          throw new Error('Failed to parse API response');
-        }
+        // Leave the batch unannotated rather than failing the whole analysis
+        console.error(`[${this.serverName}] Annotation of fields ${i + 1}-${i + batch.length} failed:`, (error as Error).message);
       }
+    }
 
-      throw new Error('Invalid API response format from Perplexity');
-    } catch (error) {
-      console.error(`[${this.serverName}] Perplexity API error:`, error);
-      throw error;
+    const result = reconcileFieldAnnotations(nativeFields, annotations);
+
+    if (result.summary.discarded.length > 0) {
+      console.warn(`[${this.serverName}] Discarded annotations for ${result.summary.discarded.length} unknown fields`);
     }
+
+    return result;
+  }
+
+  private async annotateFields(
+    pdf: Buffer,
+    fields: FieldData[],
+    llm: LLMProvider,
+    options?: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<FieldAnnotation[]> {
+    const fieldList = fields.map(field => ({
+      name: field.name,
+      type: field.type,
+      page: field.location?.page,
+      tooltip: field.description || undefined,
+      context: field.context_clues,
+      options: field.options
+    }));
+
+    const prompt = `
+      The attached PDF form has the fillable fields listed below. Do not add, rename or remove fields.
+      For each field, using its exact name, provide:
+      1. description: a short human description of what should be entered
+      2. dataType: the expected kind of value, one of ${DATA_TYPES.join(', ')}
+      3. group: the section or logical group of the form the field belongs to
+
+      Fields:
+      ${JSON.stringify(fieldList)}
+
+      Format your response as a JSON object of the form {"fields": [{"name", "description", "dataType", "group"}]}.
+    `;
+
+    const { value } = await completeStructured<{ fields: FieldAnnotation[] }>(llm, {
+      prompt,
+      task: PROMPT_VERSIONS.annotate,
+      context: { fields: fieldList },
+      document: { data: pdf, mimeType: 'application/pdf' },
+      json: true,
+      options,
+      signal
+    }, ANNOTATION_SCHEMA);
+
+    return value.fields;
   }
 
-  private async extractWithOpenAI(base64Pdf: string, options?: Record<string, any>): Promise<FieldData[]> {
+  /**
+   * Drop cached analyses, of one form (`documentSha256` or `pdfPath`) or
+   * one `provider`, or all of them
+   */
+  private async invalidateCacheHandler(req: Request, res: Response): Promise<void> {
     try {
-      const apiKey = this.openaiConfig.apiKey;
+      const filter = { ...req.query, ...req.body } as Record<string, string>;
+      const fullPath = filter.pdfPath && this.resolveUploadPath(filter.pdfPath);
 
-      if (!apiKey) {
-        throw new Error('OpenAI API key not configured');
+      if (fullPath && !fs.existsSync(fullPath)) {
+        res.status(404).json({
+          error: 'PDF file not found',
+          path: fullPath
+        });
+        return;
       }
 
-      const response = await axios.post(
-        `${this.openaiConfig.baseUrl}/chat/completions`,
-        {
-          model: options?.model || "gpt-4-vision-preview",
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: `
-                    Analyze this PDF form and identify all empty fields that need to be filled out.
-                    For each field, extract:
-                    1. Field name or identifier
-                    2. Field type (text, checkbox, date, number, etc.)
-                    3. A brief description of what information should be entered
-                    4. If possible, the page number where the field appears
-
-                    Format your response as a JSON array with one object per field.
-                    Only include empty fields that need to be filled in, not fields that already contain data.
-                  `
-                },
-                {
-                  type: "image_url",
-                  image_url: {
-                    url: `data:application/pdf;base64,${base64Pdf}`
-                  }
-                }
-              ]
-            }
-          ],
-          response_format: { type: "json_object" },
-          max_tokens: options?.max_tokens || 4096
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+      const documentSha256 = fullPath ? await analysisCache.documentHash(fullPath) : filter.documentSha256;
 
-      if (response.data && response.data.choices && response.data.choices.length > 0) {
-        const content = response.data.choices[0].message.content;
-        try {
-          const parsedResponse = JSON.parse(content);
-          return parsedResponse.fields || [];
-        } catch (parseError) {
-          console.error(`[${this.serverName}] Error parsing OpenAI response:`, parseError);
-          throw new Error('Failed to parse API response');
-        }
+      res.json({
+        status: 'success',
+        removed: analysisCache.invalidate({ task: CACHE_TASK, documentSha256, provider: filter.provider })
+      });
+    } catch (error) {
+      if (error instanceof UploadPathError) {
+        res.status(400).json({ error: error.message });
+        return;
       }
 
-      throw new Error('Invalid API response format from OpenAI');
-    } catch (error) {
-      console.error(`[${this.serverName}] OpenAI API error:`, error);
-      throw error;
+      this.logError(error as Error);
+      res.status(500).json({
+        error: 'Cache invalidation failed',
+        message: (error as Error).message
+      });
     }
   }
 
@@ -252,11 +472,13 @@ export class AIAnalysisServer extends BaseMCPServer {
     res.json({
       status: 'healthy',
       providers: {
-        perplexity: !!this.perplexityConfig.apiKey,
-        openai: !!this.openaiConfig.apiKey
+        ...llmProviders.status(),
+        native: true
       },
+      circuits: llmRouter.status(),
+      cache: analysisCache.status([CACHE_TASK]),
       uptime: process.uptime(),
       timestamp: new Date().toISOString()
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,72 @@
+import { FieldData } from '../../types/field-data';
+
+/**
+ * What a model is asked to add to a native field
+ */
+export interface FieldAnnotation {
+  name: string;
+  description?: string;
+  dataType?: string;
+  group?: string;
+}
+
+export interface AnnotationSummary {
+  annotated: number;
+  unannotated: string[];
+  discarded: string[];
+}
+
+/**
+ * Merge model annotations onto the authoritative native field list. Fields
+ * are matched by exact name; annotations for names the form does not declare
+ * are discarded, so the model can describe fields but never invent them.
+ */
+export function reconcileFieldAnnotations(
+  fields: FieldData[],
+  annotations: FieldAnnotation[]
+): { fields: FieldData[]; summary: AnnotationSummary } {
+  const byName = new Map<string, FieldAnnotation>();
+  const discarded: string[] = [];
+  const known = new Set(fields.map(field => field.name));
+
+  for (const annotation of annotations) {
+    if (!annotation || typeof annotation.name !== 'string') {
+      continue;
+    }
+
+    if (known.has(annotation.name)) {
+      byName.set(annotation.name, annotation);
+    } else {
+      discarded.push(annotation.name);
+    }
+  }
+
+  const unannotated: string[] = [];
+
+  const reconciled = fields.map(field => {
+    const annotation = byName.get(field.name);
+    const description = typeof annotation?.description === 'string' ? annotation.description.trim() : '';
+
+    if (!annotation || !description) {
+      unannotated.push(field.name);
+      return { ...field, annotated: false };
+    }
+
+    return {
+      ...field,
+      description,
+      ...(typeof annotation.dataType === 'string' && { dataType: annotation.dataType }),
+      ...(typeof annotation.group === 'string' && { group: annotation.group }),
+      annotated: true
+    };
+  });
+
+  return {
+    fields: reconciled,
+    summary: {
+      annotated: reconciled.length - unannotated.length,
+      unannotated,
+      discarded
+    }
+  };
+}
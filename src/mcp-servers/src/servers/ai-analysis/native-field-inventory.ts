@@ -0,0 +1,175 @@
+import { loadPdfDocument } from '../../services/pdf-reader';
+import { FieldCoordinates, FieldData, FieldWidget } from '../../types/field-data';
+import { TextLayerContext } from './text-layer-context';
+
+/**
+ * Widget annotation data as reported by pdf.js
+ */
+interface WidgetAnnotation {
+  subtype: string;
+  fieldName?: string;
+  fieldType?: 'Tx' | 'Btn' | 'Ch' | 'Sig';
+  rect: number[];
+  fieldValue?: string | string[] | null;
+  alternativeText?: string;
+  maxLen?: number;
+  readOnly?: boolean;
+  required?: boolean;
+  checkBox?: boolean;
+  radioButton?: boolean;
+  pushButton?: boolean;
+  combo?: boolean;
+  exportValue?: string;
+  buttonValue?: string;
+  options?: Array<{ exportValue: string; displayValue: string }>;
+}
+
+/**
+ * Reads the AcroForm of a PDF directly instead of asking a model to guess it.
+ * Field names are fully qualified, exactly as pdf-lib's field.getName()
+ * reports them, so the inventory lines up with what the form filler fills.
+ *
+ * The form is read with pdf.js rather than pdf-lib: pdf-lib cannot decrypt
+ * forms protected with an owner password, such as the DV-100, and even with
+ * ignoreEncryption it finds none of their fields.
+ */
+export class NativeFieldInventory {
+  private textLayerContext: TextLayerContext;
+
+  constructor() {
+    this.textLayerContext = new TextLayerContext();
+  }
+
+  /**
+   * List every fillable field of the form, given by path or contents, one
+   * entry per field with all of its widgets and the text printed around it
+   */
+  public async extract(pdf: string | Buffer): Promise<FieldData[]> {
+    const doc = await loadPdfDocument(pdf);
+
+    try {
+      const fields = new Map<string, FieldData>();
+
+      for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+        const page = await doc.getPage(pageNumber);
+        const annotations: WidgetAnnotation[] = await page.getAnnotations();
+
+        for (const annotation of annotations) {
+          if (annotation.subtype !== 'Widget' || !annotation.fieldName || annotation.pushButton) {
+            continue;
+          }
+
+          const widget: FieldWidget = {
+            page: pageNumber,
+            coordinates: this.toCoordinates(annotation.rect)
+          };
+
+          const exportValue = annotation.radioButton ? annotation.buttonValue : annotation.exportValue;
+          if (exportValue !== undefined) {
+            widget.exportValue = exportValue;
+          }
+
+          const existing = fields.get(annotation.fieldName);
+          if (existing) {
+            this.addWidget(existing, annotation, widget);
+          } else {
+            fields.set(annotation.fieldName, this.createField(annotation, widget));
+          }
+        }
+
+        page.cleanup();
+      }
+
+      const inventory = Array.from(fields.values());
+      await this.textLayerContext.attach(doc, inventory);
+
+      return inventory;
+    } finally {
+      await doc.destroy();
+    }
+  }
+
+  private createField(annotation: WidgetAnnotation, widget: FieldWidget): FieldData {
+    const type = this.getFieldType(annotation);
+
+    const field: FieldData = {
+      name: annotation.fieldName!,
+      type,
+      description: annotation.alternativeText || '',
+      location: {
+        page: widget.page,
+        coordinates: widget.coordinates
+      },
+      readOnly: !!annotation.readOnly,
+      required: !!annotation.required,
+      value: this.getFieldValue(annotation, type),
+      widgets: [widget]
+    };
+
+    if (annotation.maxLen) {
+      field.maxLength = annotation.maxLen;
+    }
+
+    if (annotation.options && annotation.options.length > 0) {
+      field.options = annotation.options.map(option => option.exportValue);
+    } else if (widget.exportValue !== undefined) {
+      field.options = [widget.exportValue];
+    }
+
+    return field;
+  }
+
+  private addWidget(field: FieldData, annotation: WidgetAnnotation, widget: FieldWidget): void {
+    field.widgets!.push(widget);
+
+    if (widget.exportValue !== undefined && !field.options?.includes(widget.exportValue)) {
+      field.options = [...(field.options || []), widget.exportValue];
+    }
+
+    // Checkboxes sharing a name are checked if any of their widgets is
+    if (field.type === 'checkbox' && field.value !== true) {
+      field.value = this.getFieldValue(annotation, field.type);
+    }
+  }
+
+  private getFieldType(annotation: WidgetAnnotation): string {
+    switch (annotation.fieldType) {
+      case 'Tx':
+        return 'text';
+      case 'Btn':
+        return annotation.radioButton ? 'radio' : 'checkbox';
+      case 'Ch':
+        return annotation.combo ? 'dropdown' : 'optionList';
+      case 'Sig':
+        return 'signature';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private getFieldValue(annotation: WidgetAnnotation, type: string): FieldData['value'] {
+    const value = annotation.fieldValue;
+
+    if (type === 'checkbox') {
+      return value !== undefined && value !== null && value !== 'Off' && value !== '';
+    }
+
+    if (type === 'radio') {
+      return value && value !== 'Off' ? value : null;
+    }
+
+    return value ?? null;
+  }
+
+  private toCoordinates(rect: number[]): FieldCoordinates {
+    const [x1, y1, x2, y2] = rect;
+    const round = (n: number) => Math.round(n * 100) / 100;
+
+    return [
+      round(Math.min(x1, x2)),
+      round(Math.min(y1, y2)),
+      round(Math.abs(x2 - x1)),
+      round(Math.abs(y2 - y1))
+    ];
+  }
+}
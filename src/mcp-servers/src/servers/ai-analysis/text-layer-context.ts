@@ -0,0 +1,370 @@
+import { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { FieldContextClues, FieldCoordinates, FieldData } from '../../types/field-data';
+
+interface TextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+}
+
+interface TextLine {
+  y: number;
+  items: TextItem[];
+}
+
+interface Marker {
+  kind: 'item' | 'subitem';
+  value: string;
+  x: number;
+  y: number;
+  section?: string;
+}
+
+// Distances in points
+const LINE_TOLERANCE = 3;
+const WORD_GAP = 6;
+const HEADING_GAP = 40;
+const MAX_LABEL_DISTANCE = 72;
+const MAX_LINE_SPACING = 16;
+const MAX_LABEL_LINES = 3;
+
+const ITEM_PATTERN = /^\d{1,2}$/;
+const SUBITEM_PATTERN = /^([a-z])\.$/;
+
+/**
+ * Attaches the text printed around each widget to the native inventory:
+ * the nearest label, the item number (e.g. "5b") and the item's heading.
+ * Field names such as CheckBox1[0] mean nothing on their own; these clues
+ * are what a person filling the form would read.
+ */
+export class TextLayerContext {
+  public async attach(doc: PDFDocumentProxy, fields: FieldData[]): Promise<void> {
+    let carriedItem: Marker | undefined;
+
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const pageFields = fields.filter(field => field.location?.page === pageNumber && field.location.coordinates);
+      const page = await doc.getPage(pageNumber);
+      const lines = await this.readLines(page);
+      const markers = this.findMarkers(lines);
+
+      // Widgets bound the labels of their neighbours
+      const rects = fields.flatMap(field =>
+        (field.widgets || []).filter(widget => widget.page === pageNumber).map(widget => widget.coordinates)
+      );
+
+      // Label buttons first so their captions are not reused for other fields
+      const claimed = new Set<TextItem>();
+      const ordered = [...pageFields].sort((a, b) => Number(this.isButton(b.type)) - Number(this.isButton(a.type)));
+
+      for (const field of ordered) {
+        const rect = field.location!.coordinates!;
+        const clues: FieldContextClues = {};
+
+        const label = this.findLabel(field.type, rect, lines, rects, claimed);
+        if (label) {
+          clues.label = label;
+        }
+
+        const item = this.findItem(rect, markers, carriedItem);
+        if (item.itemNumber) {
+          clues.itemNumber = item.itemNumber;
+        }
+        if (item.section) {
+          clues.section = item.section;
+        }
+
+        if (Object.keys(clues).length > 0) {
+          field.context_clues = clues;
+        }
+      }
+
+      const pageItems = markers.filter(marker => marker.kind === 'item');
+      if (pageItems.length > 0) {
+        carriedItem = pageItems.reduce((lowest, marker) => marker.y < lowest.y ? marker : lowest);
+      }
+
+      page.cleanup();
+    }
+  }
+
+  /**
+   * Group the page's text into lines, top to bottom, each sorted left to right
+   */
+  private async readLines(page: PDFPageProxy): Promise<TextLine[]> {
+    const content = await page.getTextContent();
+
+    const items: TextItem[] = content.items
+      .filter((item): item is typeof item & { str: string; transform: number[]; width: number } =>
+        'str' in item && item.str.trim() !== '')
+      .map(item => ({
+        str: item.str.trim(),
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width
+      }))
+      .sort((a, b) => b.y - a.y || a.x - b.x);
+
+    const lines: TextLine[] = [];
+    for (const item of items) {
+      const line = lines[lines.length - 1];
+      if (line && Math.abs(line.y - item.y) <= LINE_TOLERANCE) {
+        line.items.push(item);
+      } else {
+        lines.push({ y: item.y, items: [item] });
+      }
+    }
+
+    lines.forEach(line => line.items.sort((a, b) => a.x - b.x));
+    return lines;
+  }
+
+  /**
+   * Item numbers and sub-item letters start their line, e.g. "5" followed by
+   * the heading "Most Recent Abuse", then "a." and "b."
+   */
+  private findMarkers(lines: TextLine[]): Marker[] {
+    const markers: Marker[] = [];
+
+    for (const line of lines) {
+      const [first, ...rest] = line.items;
+
+      if (ITEM_PATTERN.test(first.str)) {
+        // The heading follows the number; anything further right is another column
+        const heading = rest.length > 0 && rest[0].x - (first.x + first.width) <= HEADING_GAP
+          ? this.splitRuns(rest, HEADING_GAP)[0]
+          : [];
+
+        markers.push({
+          kind: 'item',
+          value: first.str,
+          x: first.x,
+          y: line.y,
+          section: this.joinText(heading) || undefined
+        });
+      } else {
+        const subitem = first.str.match(SUBITEM_PATTERN);
+        if (subitem) {
+          markers.push({ kind: 'subitem', value: subitem[1], x: first.x, y: line.y });
+        }
+      }
+    }
+
+    return markers;
+  }
+
+  private findItem(
+    rect: FieldCoordinates,
+    markers: Marker[],
+    carriedItem?: Marker
+  ): { itemNumber?: string; section?: string } {
+    const [x, y, , height] = rect;
+    const lineBottom = Math.max(y, y + height - MAX_LINE_SPACING) - LINE_TOLERANCE;
+
+    const nearest = (kind: Marker['kind']) => markers
+      .filter(marker => marker.kind === kind && marker.y >= lineBottom && marker.x <= x + 2)
+      .reduce<Marker | undefined>((best, marker) => !best || marker.y < best.y ? marker : best, undefined);
+
+    let item = nearest('item');
+    let subitem = nearest('subitem');
+
+    // A sub-item above the item belongs to the previous item
+    if (item && subitem && subitem.y > item.y + LINE_TOLERANCE) {
+      subitem = undefined;
+    }
+
+    // Items continue across pages
+    if (!item && subitem) {
+      item = carriedItem;
+    }
+
+    if (!item) {
+      return {};
+    }
+
+    return {
+      itemNumber: `${item.value}${subitem ? subitem.value : ''}`,
+      section: item.section
+    };
+  }
+
+  private findLabel(
+    type: string,
+    rect: FieldCoordinates,
+    lines: TextLine[],
+    rects: FieldCoordinates[],
+    claimed: Set<TextItem>
+  ): string | undefined {
+    const [x, y, width, height] = rect;
+    const top = y + height;
+
+    // Labels share the baseline of single-line widgets and sit on the first
+    // line of tall ones
+    const lineBottom = Math.max(y, top - MAX_LINE_SPACING) - LINE_TOLERANCE;
+    const sameLine = lines.filter(line =>
+      line.y >= lineBottom && line.y <= Math.min(top, lineBottom + 11)
+    );
+    const others = rects.filter(other =>
+      other !== rect && other[1] < top && other[1] + other[3] > y
+    );
+
+    const isButton = this.isButton(type);
+
+    const run = (isButton && this.findRightLabel(x + width, sameLine, others))
+      || this.findLeftLabel(x, sameLine, others)
+      || (!isButton && this.findRightLabel(x + width, sameLine, others));
+
+    if (run) {
+      run.forEach(item => claimed.add(item));
+      return this.joinText(run);
+    }
+
+    return this.findAboveLabel(x, x + width, top, lines, claimed);
+  }
+
+  private findLeftLabel(left: number, lines: TextLine[], others: FieldCoordinates[]): TextItem[] | undefined {
+    const bound = Math.max(-Infinity, ...others.map(([ox, , ow]) => ox + ow).filter(right => right <= left + 2));
+
+    for (const line of lines) {
+      const candidates = line.items.filter((item, index) =>
+        item.x + item.width <= left + 2 && item.x >= bound - 2 && !this.isMarker(item, index)
+      );
+      const nearest = candidates[candidates.length - 1];
+
+      if (!nearest || left - (nearest.x + nearest.width) > MAX_LABEL_DISTANCE) {
+        continue;
+      }
+
+      const run = [nearest];
+      for (let i = candidates.length - 2; i >= 0; i--) {
+        if (!this.isAdjacent(candidates[i], run[0])) {
+          break;
+        }
+        run.unshift(candidates[i]);
+      }
+
+      return run;
+    }
+
+    return undefined;
+  }
+
+  private findRightLabel(right: number, lines: TextLine[], others: FieldCoordinates[]): TextItem[] | undefined {
+    const bound = Math.min(Infinity, ...others.map(([ox]) => ox).filter(x => x >= right - 2));
+
+    for (const line of lines) {
+      const candidates = line.items.filter(item => item.x >= right - 2 && item.x + item.width <= bound + 2);
+      const nearest = candidates[0];
+
+      if (!nearest || nearest.x - right > MAX_LABEL_DISTANCE) {
+        continue;
+      }
+
+      const run = [nearest];
+      for (let i = 1; i < candidates.length; i++) {
+        if (!this.isAdjacent(run[run.length - 1], candidates[i])) {
+          break;
+        }
+        run.push(candidates[i]);
+      }
+
+      return run;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Multi-line prompts above a widget, read upwards until the line that
+   * starts the sub-item
+   */
+  private findAboveLabel(
+    left: number,
+    right: number,
+    top: number,
+    lines: TextLine[],
+    claimed: Set<TextItem>
+  ): string | undefined {
+    const collected: string[] = [];
+    let previousY = top;
+
+    const above = lines
+      .filter(line => line.y > top - LINE_TOLERANCE)
+      .sort((a, b) => a.y - b.y);
+
+    for (const line of above) {
+      if (line.y - previousY > MAX_LINE_SPACING || collected.length >= MAX_LABEL_LINES) {
+        break;
+      }
+
+      // Skip text already claimed, e.g. the captions of checkboxes on that line
+      const startsItem = this.isMarker(line.items[0], 0);
+      const overlapping = line.items.filter(item =>
+        item.x < right && item.x + item.width > left && (!startsItem || item !== line.items[0])
+      );
+
+      const text = this.joinText(overlapping.filter(item => !claimed.has(item)));
+
+      if (!text) {
+        break;
+      }
+
+      collected.unshift(text);
+      previousY = line.y;
+
+      if (startsItem) {
+        break;
+      }
+    }
+
+    return collected.length > 0 ? collected.join(' ') : undefined;
+  }
+
+  private splitRuns(items: TextItem[], maxGap: number): TextItem[][] {
+    const runs: TextItem[][] = [];
+
+    for (const item of items) {
+      const run = runs[runs.length - 1];
+      const last = run && run[run.length - 1];
+
+      if (last && item.x - (last.x + last.width) <= maxGap) {
+        run.push(item);
+      } else {
+        runs.push([item]);
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Words of one label. References to other items ("the person in 2") are
+   * set apart from the surrounding words.
+   */
+  private isAdjacent(previous: TextItem, next: TextItem): boolean {
+    const gap = next.x - (previous.x + previous.width);
+    const isReference = ITEM_PATTERN.test(previous.str) || ITEM_PATTERN.test(next.str);
+
+    return gap <= (isReference ? WORD_GAP * 2 : WORD_GAP);
+  }
+
+  private isButton(type: string): boolean {
+    return type === 'checkbox' || type === 'radio';
+  }
+
+  private isMarker(item: TextItem, index: number): boolean {
+    return index === 0 && (ITEM_PATTERN.test(item.str) || SUBITEM_PATTERN.test(item.str));
+  }
+
+  private joinText(items: TextItem[]): string {
+    return items
+      .map((item, index) => {
+        const previous = items[index - 1];
+        const gap = previous ? item.x - (previous.x + previous.width) : 0;
+        return (previous && gap > 1.5 ? ' ' : '') + item.str;
+      })
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
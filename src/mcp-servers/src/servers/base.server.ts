@@ -1,23 +1,60 @@
-import { Anthropic } from '@anthropic-ai/sdk';
 import express, { Express, Request, Response } from 'express';
+import { Server } from 'http';
+import { Server as MCPProtocolServer } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ListToolsRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
 import ServerConfig from '../config/server.config';
+import { isUploadPath, resolveUploadPath } from '../services/upload-path';
 import fs from 'fs';
 import path from 'path';
 
+/**
+ * JSON schema describing the arguments of an MCP tool
+ */
+export interface MCPToolInputSchema {
+  type: 'object';
+  properties?: Record<string, any>;
+  required?: string[];
+  [key: string]: any;
+}
+
+/**
+ * Per-call context passed to tool handlers. The signal aborts when the
+ * caller cancels or disconnects.
+ */
+export interface MCPToolContext {
+  signal: AbortSignal;
+}
+
+/**
+ * An operation published over the Model Context Protocol
+ */
+export interface MCPTool {
+  name: string;
+  description: string;
+  inputSchema: MCPToolInputSchema;
+  handler: (args: Record<string, any>, context: MCPToolContext) => Promise<Record<string, any>>;
+}
+
 export abstract class BaseMCPServer {
   protected app: Express;
-  protected anthropic: Anthropic;
   protected serverName: string;
+  protected tools: Map<string, MCPTool> = new Map();
+  private httpServer: Server | null = null;
 
   constructor(serverName: string) {
     this.serverName = serverName;
     this.app = express();
-    this.anthropic = new Anthropic({
-      apiKey: ServerConfig.anthropicApiKey,
-    });
 
     this.setupMiddleware();
     this.setupRoutes();
+    this.setupTools();
+    this.setupMCPRoute();
     this.setupDownloadRoute();
     this.setupErrorHandling();
   }
@@ -32,6 +69,109 @@ export abstract class BaseMCPServer {
 
   protected abstract setupRoutes(): void;
 
+  /**
+   * Register the MCP tools exposed by this server
+   */
+  protected setupTools(): void {
+    // Servers without tools only expose their HTTP routes
+  }
+
+  protected registerTool(tool: MCPTool): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Create an MCP protocol server publishing the registered tools
+   */
+  protected createMCPServer(): MCPProtocolServer {
+    const mcpServer = new MCPProtocolServer(
+      { name: this.serverName, version: '1.0.0' },
+      { capabilities: { tools: {} } }
+    );
+
+    mcpServer.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: Array.from(this.tools.values()).map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      }))
+    }));
+
+    mcpServer.setRequestHandler(CallToolRequestSchema, async (request, extra): Promise<CallToolResult> => {
+      const tool = this.tools.get(request.params.name);
+
+      if (!tool) {
+        return {
+          content: [{ type: 'text', text: `Unknown tool: ${request.params.name}` }],
+          isError: true
+        };
+      }
+
+      try {
+        console.log(`[${this.serverName}] MCP tool call: ${tool.name}`);
+        const result = await tool.handler(request.params.arguments || {}, { signal: extra.signal });
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result) }],
+          structuredContent: result
+        };
+      } catch (error) {
+        this.logError(error as Error);
+        return {
+          content: [{ type: 'text', text: (error as Error).message }],
+          isError: true
+        };
+      }
+    });
+
+    return mcpServer;
+  }
+
+  /**
+   * Serve MCP JSON-RPC over streamable HTTP on /mcp
+   */
+  private setupMCPRoute(): void {
+    this.app.post('/mcp', async (req: Request, res: Response) => {
+      try {
+        // Stateless mode: every request gets its own server and transport
+        const mcpServer = this.createMCPServer();
+        const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+
+        res.on('close', () => {
+          transport.close();
+          mcpServer.close();
+        });
+
+        await mcpServer.connect(transport);
+        await transport.handleRequest(req, res, req.body);
+      } catch (error) {
+        this.logError(error as Error);
+        if (!res.headersSent) {
+          res.status(500).json({
+            jsonrpc: '2.0',
+            error: { code: -32603, message: 'Internal server error' },
+            id: null
+          });
+        }
+      }
+    });
+
+    const methodNotAllowed = (_req: Request, res: Response) => {
+      res.status(405).json({
+        jsonrpc: '2.0',
+        error: { code: -32000, message: 'Method not allowed.' },
+        id: null
+      });
+    };
+
+    this.app.get('/mcp', methodNotAllowed);
+    this.app.delete('/mcp', methodNotAllowed);
+  }
+
   private setupDownloadRoute(): void {
     this.app.get('/download', (req: Request, res: Response) => {
       try {
@@ -46,15 +186,10 @@ export abstract class BaseMCPServer {
         }
 
         // Resolve path and validate it's within uploads directory
-        const fullPath = path.isAbsolute(filePath)
-          ? filePath
-          : path.resolve(ServerConfig.uploadsDir, filePath);
+        const fullPath = path.resolve(ServerConfig.uploadsDir, filePath);
 
         // Security check: ensure the path is within uploads directory
-        const normalizedFullPath = path.normalize(fullPath);
-        const normalizedUploadsDir = path.normalize(ServerConfig.uploadsDir);
-
-        if (!normalizedFullPath.startsWith(normalizedUploadsDir)) {
+        if (!isUploadPath(fullPath)) {
           console.warn(`[${this.serverName}] Attempted to access file outside uploads directory: ${filePath}`);
           res.status(403).json({
             error: 'Access denied',
@@ -141,11 +276,30 @@ export abstract class BaseMCPServer {
   }
 
   public start(port: number = ServerConfig.port): void {
-    this.app.listen(port, () => {
+    this.httpServer = this.app.listen(port, () => {
       console.log(`[${this.serverName}] MCP Server running on port ${port}`);
     });
   }
 
+  /**
+   * Serve MCP JSON-RPC over stdio instead of HTTP
+   */
+  public async startStdio(): Promise<void> {
+    const mcpServer = this.createMCPServer();
+    await mcpServer.connect(new StdioServerTransport());
+    console.error(`[${this.serverName}] MCP Server running on stdio`);
+  }
+
+  public async shutdown(): Promise<void> {
+    const httpServer = this.httpServer;
+
+    if (httpServer) {
+      this.httpServer = null;
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+      console.log(`[${this.serverName}] Server closed`);
+    }
+  }
+
   protected async validateRequest(req: Request): Promise<boolean> {
     // Add your request validation logic here
     return true;
@@ -155,6 +309,12 @@ export abstract class BaseMCPServer {
     console.error(`[${this.serverName}] Error:`, error);
   }
 
+  // Helper method to resolve a path relative to the uploads directory; paths
+  // outside it raise an UploadPathError
+  protected resolveUploadPath(filePath: string): string {
+    return resolveUploadPath(filePath);
+  }
+
   // Helper method to ensure a directory exists
   protected ensureDirectoryExists(dirPath: string): void {
     if (!fs.existsSync(dirPath)) {
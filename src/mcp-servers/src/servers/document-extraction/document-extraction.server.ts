@@ -1,43 +1,90 @@
 import { Request, Response } from 'express';
 import { BaseMCPServer } from '../base.server';
-import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
 import multer from 'multer';
 import ServerConfig from '../../config/server.config';
-
-interface ApiConfig {
-  apiKey: string;
-  baseUrl: string;
-}
+import { llmProviders } from '../../services/llm/provider-registry';
+import { llmErrorDetails, llmRouter } from '../../services/llm/provider-router';
+import { analysisCache } from '../../services/analysis-cache';
+import { acceptsDocument } from '../../services/llm/llm-provider';
+import { completeStructured, LLMOutputError } from '../../services/llm/structured-output';
+import { UploadPathError } from '../../services/upload-path';
 
 interface ExtractionRequest {
   documentPath: string;
   documentType?: string;
   targetFields?: string[];
-  provider?: 'perplexity' | 'openai';
+  // Name of an LLM provider from the registry
+  provider?: string;
+  // Providers to try in order, instead of the configured chain
+  providers?: string[];
   options?: Record<string, any>;
+  // Ask the provider again instead of using a cached answer
+  refresh?: boolean;
+}
+
+// Reported with every result so a run can be traced to the prompt that
+// produced it; bump a version whenever its prompt changes
+const PROMPT_VERSIONS = {
+  document: 'extract-document/1',
+  targetFields: 'extract-target-fields/1'
+};
+
+// Cache task of donor document extractions
+const CACHE_TASK = 'extract-data';
+
+// Values under names with a date or DOB word, such as dateOfBirth,
+// incidentDate or birth_date but not placeOfBirth or updatedBy, must be
+// dates and are normalised to YYYY-MM-DD
+const EXTRACTION_SCHEMA = {
+  type: 'object',
+  patternProperties: {
+    '(^date|_date|Date|^dob|_dob|Dob|DOB)(?![a-z])': { format: 'date' }
+  }
+};
+
+/**
+ * Prompt asking for the data of a donor document, or only for the given
+ * fields
+ */
+function extractionPrompt(documentType?: string, targetFields?: string[]): string {
+  if (targetFields && targetFields.length > 0) {
+    return `
+      I need you to extract specific fields from this ${documentType || 'document'}.
+
+      Please find and extract the following fields:
+      ${targetFields.map(field => `- ${field}`).join('\n')}
+
+      Format your response as a JSON object with these exact field names.
+      If a field is not found, set its value to null.
+    `;
+  }
+
+  return `
+    I need you to extract structured information from this ${documentType || 'document'}.
+
+    Extract all personal information, dates, identifiers, and relevant data that could be used to fill out a legal form.
+    Include fields such as:
+    - Full name, including first name, last name, and middle name/initial if available
+    - Date of birth
+    - Address information (street, city, state, zip)
+    - Phone numbers
+    - Email addresses
+    - License numbers or IDs
+    - Case numbers (if applicable)
+    - Any other relevant structured information
+
+    Format your response as a JSON object with appropriate field names.
+  `;
 }
 
 export class DocumentExtractionServer extends BaseMCPServer {
-  private perplexityConfig: ApiConfig;
-  private openaiConfig: ApiConfig;
   private upload: multer.Multer;
 
   constructor() {
     super('Document-Extraction-Server');
 
-    // Initialize API configurations
-    this.perplexityConfig = {
-      apiKey: process.env.PERPLEXITY_API_KEY || '',
-      baseUrl: 'https://api.perplexity.ai'
-    };
-
-    this.openaiConfig = {
-      apiKey: process.env.OPENAI_API_KEY || '',
-      baseUrl: 'https://api.openai.com/v1'
-    };
-
     // Configure file upload
     const uploadDir = path.resolve(ServerConfig.uploadsDir, 'donor-documents');
     this.ensureDirectoryExists(uploadDir);
@@ -74,11 +121,47 @@ export class DocumentExtractionServer extends BaseMCPServer {
   }
 
   protected setupRoutes(): void {
-    this.app.post('/upload', this.upload.single('document'), this.handleDocumentUpload.bind(this));
+    // Routes are registered from the base constructor, before the upload
+    // middleware is configured, so resolve it per request
+    this.app.post(
+      '/upload',
+      (req, res, next) => this.upload.single('document')(req, res, next),
+      this.handleDocumentUpload.bind(this)
+    );
     this.app.post('/extract-data', this.extractDataHandler.bind(this));
+    this.app.delete('/cache', this.invalidateCacheHandler.bind(this));
     this.app.get('/status', this.statusHandler.bind(this));
   }
 
+  protected setupTools(): void {
+    this.registerTool({
+      name: 'extract-data',
+      description: 'Extract structured personal and case data from a donor document',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          documentPath: { type: 'string', description: 'Path to the document, absolute or relative to the uploads directory' },
+          documentType: { type: 'string', description: 'Kind of document, e.g. "driver license"' },
+          targetFields: { type: 'array', items: { type: 'string' }, description: 'Only extract these fields' },
+          provider: { type: 'string', enum: llmProviders.names(), description: 'AI provider used for the extraction' },
+          providers: { type: 'array', items: { type: 'string', enum: llmProviders.names() }, description: 'Providers to try in order until one succeeds' },
+          options: { type: 'object', description: 'Provider specific options such as max_tokens or model' },
+          refresh: { type: 'boolean', description: 'Extract the document again instead of using a cached answer' }
+        },
+        required: ['documentPath']
+      },
+      handler: async (args, { signal }) => {
+        const fullPath = this.resolveUploadPath(args.documentPath);
+
+        if (!fs.existsSync(fullPath)) {
+          throw new Error(`Document not found: ${fullPath}`);
+        }
+
+        return this.extract(fullPath, args as ExtractionRequest, signal);
+      }
+    });
+  }
+
   private async handleDocumentUpload(req: Request, res: Response): Promise<void> {
     try {
       if (!req.file) {
@@ -115,6 +198,12 @@ export class DocumentExtractionServer extends BaseMCPServer {
         return;
       }
 
+      const providerError = llmProviders.checkRequested(extractionRequest.provider, extractionRequest.providers);
+      if (providerError) {
+        res.status(400).json({ error: providerError });
+        return;
+      }
+
       // Validate request
       const isValid = await this.validateRequest(req);
       if (!isValid) {
@@ -123,9 +212,7 @@ export class DocumentExtractionServer extends BaseMCPServer {
       }
 
       // Check if file exists
-      const fullPath = path.isAbsolute(extractionRequest.documentPath)
-        ? extractionRequest.documentPath
-        : path.resolve(ServerConfig.uploadsDir, extractionRequest.documentPath);
+      const fullPath = this.resolveUploadPath(extractionRequest.documentPath);
 
       if (!fs.existsSync(fullPath)) {
         res.status(404).json({
@@ -135,232 +222,138 @@ export class DocumentExtractionServer extends BaseMCPServer {
         return;
       }
 
-      // Choose API provider (default to Perplexity)
-      const provider = extractionRequest.provider || 'perplexity';
-
-      // Extract document data
-      const extractedData = await this.extractDocumentData(
-        fullPath,
-        extractionRequest.documentType,
-        extractionRequest.targetFields,
-        provider,
-        extractionRequest.options
-      );
-
-      res.json({
-        status: 'success',
-        provider,
-        documentType: extractionRequest.documentType || 'auto-detected',
-        extractedData,
-        timestamp: new Date().toISOString()
-      });
+      res.json(await this.extract(fullPath, extractionRequest));
     } catch (error) {
+      if (error instanceof UploadPathError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
       this.logError(error as Error);
-      res.status(500).json({
+      // 502 when the model kept answering with output that failed validation
+      res.status(error instanceof LLMOutputError ? 502 : 500).json({
         error: 'Data extraction failed',
-        message: (error as Error).message
+        message: (error as Error).message,
+        ...llmErrorDetails(error)
       });
     }
   }
 
-  private async extractDocumentData(
-    documentPath: string,
-    documentType?: string,
-    targetFields?: string[],
-    provider: 'perplexity' | 'openai' = 'perplexity',
-    options?: Record<string, any>
+  /**
+   * Extract the document's data with the first provider of the chain that
+   * succeeds
+   */
+  private async extract(
+    fullPath: string,
+    extractionRequest: ExtractionRequest,
+    signal?: AbortSignal
   ): Promise<Record<string, any>> {
-    // Get file extension to handle different document types
-    const fileExt = path.extname(documentPath).toLowerCase();
-    const mimeType = this.getMimeType(fileExt);
-
-    console.log(`[${this.serverName}] Extracting data from ${documentPath} (${mimeType}) using ${provider}`);
-
-    // Read the document as base64 for API submission
-    const docBuffer = fs.readFileSync(documentPath);
-    const base64Doc = docBuffer.toString('base64');
-
-    if (provider === 'perplexity') {
-      return this.extractWithPerplexity(base64Doc, mimeType, documentType, targetFields, options);
-    } else {
-      return this.extractWithOpenAI(base64Doc, mimeType, documentType, targetFields, options);
-    }
-  }
-
-  private async extractWithPerplexity(
-    base64Doc: string,
-    mimeType: string,
-    documentType?: string,
-    targetFields?: string[],
-    options?: Record<string, any>
-  ): Promise<Record<string, any>> {
-    try {
-      const apiKey = this.perplexityConfig.apiKey;
-
-      if (!apiKey) {
-        throw new Error('Perplexity API key not configured');
-      }
-
-      let prompt = `
-        I need you to extract structured information from this ${documentType || 'document'}.
-
-        Extract all personal information, dates, identifiers, and relevant data that could be used to fill out a legal form.
-        Include fields such as:
-        - Full name, including first name, last name, and middle name/initial if available
-        - Date of birth
-        - Address information (street, city, state, zip)
-        - Phone numbers
-        - Email addresses
-        - License numbers or IDs
-        - Case numbers (if applicable)
-        - Any other relevant structured information
-
-        Format your response as a JSON object with appropriate field names.
-      `;
-
-      if (targetFields && targetFields.length > 0) {
-        prompt = `
-          I need you to extract specific fields from this ${documentType || 'document'}.
-
-          Please find and extract the following fields:
-          ${targetFields.map(field => `- ${field}`).join('\n')}
-
-          Format your response as a JSON object with these exact field names.
-          If a field is not found, set its value to null.
-        `;
-      }
-
-      const response = await axios.post(
-        `${this.perplexityConfig.baseUrl}/sonar/api/v1/query`,
+    // Providers named by the request, else the task's chain (LLM_PROVIDER by default)
+    const requested = extractionRequest.providers?.length ? extractionRequest.providers : extractionRequest.provider;
+    const documentSha256 = await analysisCache.documentHash(fullPath);
+    const routed = await llmRouter.run(
+      llmRouter.chainFor('extract-data', requested),
+      (provider, callSignal) => analysisCache.remember(
         {
-          model: "sonar-medium-online",
-          document: base64Doc,
-          query: prompt,
-          override_settings: options || {}
+          task: CACHE_TASK,
+          documentSha256,
+          provider,
+          ...this.provenance(provider, extractionRequest.targetFields, extractionRequest.options),
+          targetFields: extractionRequest.targetFields,
+          variant: { documentType: extractionRequest.documentType }
         },
+        () => this.extractDocumentData(
+          fullPath,
+          extractionRequest.documentType,
+          extractionRequest.targetFields,
+          provider,
+          extractionRequest.options,
+          callSignal
+        ),
         {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      // Parse and validate the response
-      if (response.data && response.data.answer) {
-        try {
-          // Extract the JSON from the response text if needed
-          const jsonMatch = response.data.answer.match(/\{.*\}/s);
-          if (jsonMatch) {
-            return JSON.parse(jsonMatch[0]);
-          }
-
-          // If no JSON object detected, try to parse the entire answer
-          const extractedData = JSON.parse(response.data.answer);
-          return typeof extractedData === 'object' ? extractedData : {};
-        } catch (parseError) {
-          console.error(`[${this.serverName}] Error parsing Perplexity response:`, parseError);
-          throw new Error('Failed to parse API response');
+          refresh: extractionRequest.refresh,
+          // Empty answers are not kept
+          store: extractedData => Object.keys(extractedData).length > 0
         }
+      ),
+      {
+        mimeType: this.getMimeType(path.extname(fullPath).toLowerCase()),
+        reject: ({ value: extractedData }) => Object.keys(extractedData).length === 0 ? 'no data extracted' : undefined,
+        signal
       }
+    );
+
+    return {
+      status: 'success',
+      provider: routed.provider,
+      ...this.provenance(routed.provider, extractionRequest.targetFields, extractionRequest.options),
+      attempts: routed.attempts,
+      cache: routed.result.cache,
+      documentSha256,
+      documentType: extractionRequest.documentType || 'auto-detected',
+      extractedData: routed.result.value,
+      timestamp: new Date().toISOString()
+    };
+  }
 
-      throw new Error('Invalid API response format from Perplexity');
-    } catch (error) {
-      console.error(`[${this.serverName}] Perplexity API error:`, error);
-      throw error;
-    }
+  /**
+   * Model and prompt an extraction used
+   */
+  private provenance(
+    provider: string,
+    targetFields?: string[],
+    options?: Record<string, any>
+  ): { model: string; promptVersion: string } {
+    return {
+      model: llmProviders.get(provider).modelFor(options),
+      promptVersion: targetFields && targetFields.length > 0 ? PROMPT_VERSIONS.targetFields : PROMPT_VERSIONS.document
+    };
   }
 
-  private async extractWithOpenAI(
-    base64Doc: string,
-    mimeType: string,
+  private async extractDocumentData(
+    documentPath: string,
     documentType?: string,
     targetFields?: string[],
-    options?: Record<string, any>
+    provider: string = ServerConfig.defaultLlmProvider,
+    options?: Record<string, any>,
+    signal?: AbortSignal
   ): Promise<Record<string, any>> {
-    try {
-      const apiKey = this.openaiConfig.apiKey;
-
-      if (!apiKey) {
-        throw new Error('OpenAI API key not configured');
+    // Get file extension to handle different document types
+    const fileExt = path.extname(documentPath).toLowerCase();
+    const mimeType = this.getMimeType(fileExt);
+    const llm = llmProviders.get(provider);
+    const data = fs.readFileSync(documentPath);
+    let prompt = extractionPrompt(documentType, targetFields);
+    let attach = true;
+
+    if (!acceptsDocument(llm, mimeType)) {
+      if (mimeType !== 'text/plain') {
+        throw new Error(`The ${provider} provider cannot read ${mimeType} documents`);
       }
 
-      let promptText = `
-        I need you to extract structured information from this ${documentType || 'document'}.
-
-        Extract all personal information, dates, identifiers, and relevant data that could be used to fill out a legal form.
-        Include fields such as:
-        - Full name, including first name, last name, and middle name/initial if available
-        - Date of birth
-        - Address information (street, city, state, zip)
-        - Phone numbers
-        - Email addresses
-        - License numbers or IDs
-        - Case numbers (if applicable)
-        - Any other relevant structured information
-
-        Format your response as a JSON object with appropriate field names.
-      `;
-
-      if (targetFields && targetFields.length > 0) {
-        promptText = `
-          I need you to extract specific fields from this ${documentType || 'document'}.
-
-          Please find and extract the following fields:
-          ${targetFields.map(field => `- ${field}`).join('\n')}
-
-          Format your response as a JSON object with these exact field names.
-          If a field is not found, set its value to null.
-        `;
-      }
+      // Text the provider cannot take as a document goes into the prompt
+      prompt = `${prompt}\nDocument:\n${data.toString('utf8')}`;
+      attach = false;
+    }
 
-      const response = await axios.post(
-        `${this.openaiConfig.baseUrl}/chat/completions`,
-        {
-          model: options?.model || "gpt-4-vision-preview",
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: promptText
-                },
-                {
-                  type: "image_url",
-                  image_url: {
-                    url: `data:${mimeType};base64,${base64Doc}`
-                  }
-                }
-              ]
-            }
-          ],
-          response_format: { type: "json_object" },
-          max_tokens: options?.max_tokens || 4096
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      if (response.data && response.data.choices && response.data.choices.length > 0) {
-        const content = response.data.choices[0].message.content;
-        try {
-          return JSON.parse(content);
-        } catch (parseError) {
-          console.error(`[${this.serverName}] Error parsing OpenAI response:`, parseError);
-          throw new Error('Failed to parse API response');
-        }
-      }
+    console.log(`[${this.serverName}] Extracting data from ${documentPath} (${mimeType}) using ${provider}`);
 
-      throw new Error('Invalid API response format from OpenAI');
-    } catch (error) {
-      console.error(`[${this.serverName}] OpenAI API error:`, error);
-      throw error;
+    const { value: extractedData } = await completeStructured<Record<string, any>>(llm, {
+      prompt,
+      task: this.provenance(provider, targetFields, options).promptVersion,
+      context: { documentType, targetFields },
+      ...(attach && { document: { data, mimeType } }),
+      json: true,
+      options,
+      signal
+    }, EXTRACTION_SCHEMA);
+
+    // Target fields the model left out were not found
+    for (const field of targetFields || []) {
+      extractedData[field] = extractedData[field] ?? null;
     }
+
+    return extractedData;
   }
 
   private getMimeType(fileExt: string): string {
@@ -370,6 +363,7 @@ export class DocumentExtractionServer extends BaseMCPServer {
       '.png': 'image/png',
       '.webp': 'image/webp',
       '.pdf': 'application/pdf',
+      '.txt': 'text/plain',
       '.doc': 'application/msword',
       '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     };
@@ -377,20 +371,49 @@ export class DocumentExtractionServer extends BaseMCPServer {
     return mimeTypes[fileExt] || 'application/octet-stream';
   }
 
-  private ensureDirectoryExists(dirPath: string): void {
-    if (!fs.existsSync(dirPath)) {
-      fs.mkdirSync(dirPath, { recursive: true });
-      console.log(`[${this.serverName}] Created directory: ${dirPath}`);
+  /**
+   * Drop cached extractions, of one document (`documentSha256` or
+   * `documentPath`) or one `provider`, or all of them
+   */
+  private async invalidateCacheHandler(req: Request, res: Response): Promise<void> {
+    try {
+      const filter = { ...req.query, ...req.body } as Record<string, string>;
+      const fullPath = filter.documentPath && this.resolveUploadPath(filter.documentPath);
+
+      if (fullPath && !fs.existsSync(fullPath)) {
+        res.status(404).json({
+          error: 'Document not found',
+          path: fullPath
+        });
+        return;
+      }
+
+      const documentSha256 = fullPath ? await analysisCache.documentHash(fullPath) : filter.documentSha256;
+
+      res.json({
+        status: 'success',
+        removed: analysisCache.invalidate({ task: CACHE_TASK, documentSha256, provider: filter.provider })
+      });
+    } catch (error) {
+      if (error instanceof UploadPathError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
+      this.logError(error as Error);
+      res.status(500).json({
+        error: 'Cache invalidation failed',
+        message: (error as Error).message
+      });
     }
   }
 
   private statusHandler(_req: Request, res: Response): void {
     res.json({
       status: 'healthy',
-      providers: {
-        perplexity: !!this.perplexityConfig.apiKey,
-        openai: !!this.openaiConfig.apiKey
-      },
+      providers: llmProviders.status(),
+      circuits: llmRouter.status(),
+      cache: analysisCache.status([CACHE_TASK]),
       uptime: process.uptime(),
       timestamp: new Date().toISOString()
     });
@@ -0,0 +1,133 @@
+import { PDFDocument } from 'pdf-lib';
+import fs from 'fs';
+import { loadPdfDocument } from '../../services/pdf-reader';
+import { FieldCoordinates, FieldData } from '../../types/field-data';
+import { TextLayerContext } from '../ai-analysis/text-layer-context';
+import { DetectedField, FormLayoutDetector } from './form-layout-detector';
+
+export interface ConvertedField {
+  name: string;
+  type: 'text' | 'checkbox';
+  label?: string;
+  page: number;
+  coordinates: FieldCoordinates;
+  multiline?: boolean;
+  source: DetectedField['source'];
+}
+
+const MAX_NAME_LENGTH = 40;
+
+/**
+ * Turns a flat PDF into a fillable one: detects where the form expects
+ * input, names each spot after its printed label and adds real AcroForm
+ * text fields and checkboxes there.
+ */
+export class AcroFormConverter {
+  private detector: FormLayoutDetector;
+  private textLayerContext: TextLayerContext;
+
+  constructor() {
+    this.detector = new FormLayoutDetector();
+    this.textLayerContext = new TextLayerContext();
+  }
+
+  public async convert(pdfPath: string, outputPath: string): Promise<ConvertedField[]> {
+    const detected = await this.detect(pdfPath);
+
+    const pdfDoc = await PDFDocument.load(fs.readFileSync(pdfPath));
+    const form = pdfDoc.getForm();
+    const pages = pdfDoc.getPages();
+
+    for (const field of detected) {
+      const page = pages[field.page - 1];
+      const [x, y, width, height] = field.coordinates;
+
+      if (field.type === 'checkbox') {
+        form.createCheckBox(field.name).addToPage(page, { x, y, width, height, borderWidth: 0 });
+      } else {
+        const textField = form.createTextField(field.name);
+        if (field.multiline) {
+          textField.enableMultiline();
+        }
+        textField.addToPage(page, { x, y, width, height, borderWidth: 0 });
+      }
+    }
+
+    fs.writeFileSync(outputPath, await pdfDoc.save());
+    return detected;
+  }
+
+  /**
+   * Find the input areas of every page and give each a unique name
+   */
+  private async detect(pdfPath: string): Promise<ConvertedField[]> {
+    const doc = await loadPdfDocument(pdfPath);
+
+    try {
+      const detected: DetectedField[] = [];
+
+      for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+        const page = await doc.getPage(pageNumber);
+        detected.push(...await this.detector.detect(page, pageNumber));
+        page.cleanup();
+      }
+
+      // Reuse the label lookup of the native inventory on the detected areas
+      const fields: FieldData[] = detected.map((area, index) => ({
+        name: String(index),
+        type: area.type,
+        description: '',
+        location: { page: area.page, coordinates: area.coordinates },
+        widgets: [{ page: area.page, coordinates: area.coordinates }]
+      }));
+      await this.textLayerContext.attach(doc, fields);
+
+      const used = new Set<string>();
+      const counters: Record<string, number> = {};
+
+      return detected.map((area, index) => {
+        const clues = fields[index].context_clues;
+        const label = area.label || (clues && !Array.isArray(clues) ? clues.label : undefined);
+
+        counters[area.type] = (counters[area.type] || 0) + 1;
+        const base = (label && this.toFieldName(label)) || `${area.type}_p${area.page}_${counters[area.type]}`;
+
+        let name = base;
+        for (let n = 2; used.has(name); n++) {
+          name = `${base}_${n}`;
+        }
+        used.add(name);
+
+        const converted: ConvertedField = {
+          name,
+          type: area.type,
+          page: area.page,
+          coordinates: area.coordinates.map(n => Math.round(n * 100) / 100) as FieldCoordinates,
+          source: area.source
+        };
+        if (label) {
+          converted.label = label;
+        }
+        if (area.multiline) {
+          converted.multiline = true;
+        }
+
+        return converted;
+      });
+    } finally {
+      await doc.destroy();
+    }
+  }
+
+  /**
+   * "Date of Birth:" becomes date_of_birth. Periods are avoided since
+   * pdf-lib treats them as separators of hierarchical field names.
+   */
+  private toFieldName(label: string): string {
+    return label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .slice(0, MAX_NAME_LENGTH)
+      .replace(/^_+|_+$/g, '');
+  }
+}
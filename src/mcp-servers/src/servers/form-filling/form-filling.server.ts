@@ -5,31 +5,156 @@ import fs from 'fs';
 import path from 'path';
 import ServerConfig from '../../config/server.config';
 import { PythonBridge } from '../../services/python-bridge';
+import { FormInfo, getFormInfo, hasFormFields } from '../../services/pdf-reader';
+import { UploadPathError } from '../../services/upload-path';
+import { FieldData } from '../../types/field-data';
+import { OverlayFiller } from './overlay-filler';
+import { AcroFormConverter } from './acroform-converter';
+import { XfaFormHandler } from './xfa-form-handler';
+
+// 'auto' overlays flat PDFs when field locations are given
+type FillMode = 'auto' | 'acroform' | 'overlay';
+
+// How values are kept visible on XFA forms; 'auto' strips unless encrypted
+type XfaHandling = 'auto' | 'datasets' | 'strip';
+
+// What wrote the values, reported with every filled form: the Python
+// FormFiller, its pdf-lib fallback, the overlay drawer or the XFA handler
+type FillEngine = 'python-formfiller' | 'pdf-lib' | 'overlay' | 'xfa-datasets';
 
 interface FormFillingRequest {
   formPath: string;
   formData: Record<string, any>;
   outputFilename?: string;
   donorDocuments?: string[];
+  fields?: FieldData[];
+  mode?: FillMode;
+  xfa?: XfaHandling;
+}
+
+interface ConversionRequest {
+  pdfPath: string;
+  outputFilename?: string;
 }
 
 export class FormFillingServer extends BaseMCPServer {
   private outputDir: string;
+  private fillableDir: string;
   private pythonBridge: PythonBridge;
+  private overlayFiller: OverlayFiller;
+  private acroFormConverter: AcroFormConverter;
+  private xfaFormHandler: XfaFormHandler;
 
   constructor() {
     super('Form-Filling-Server');
     this.outputDir = path.resolve(ServerConfig.uploadsDir, 'filled-forms');
     this.ensureDirectoryExists(this.outputDir);
+    this.fillableDir = path.resolve(ServerConfig.uploadsDir, 'fillable-forms');
+    this.ensureDirectoryExists(this.fillableDir);
     this.pythonBridge = new PythonBridge();
+    this.overlayFiller = new OverlayFiller();
+    this.acroFormConverter = new AcroFormConverter();
+    this.xfaFormHandler = new XfaFormHandler();
   }
 
   protected setupRoutes(): void {
     this.app.post('/fill-form', this.fillFormHandler.bind(this));
     this.app.post('/process-document', this.processDocumentHandler.bind(this));
+    this.app.post('/convert-to-fillable', this.convertToFillableHandler.bind(this));
     this.app.get('/status', this.statusHandler.bind(this));
   }
 
+  protected setupTools(): void {
+    this.registerTool({
+      name: 'fill-form',
+      description: 'Fill a PDF form with field values and return the path of the filled PDF',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          formPath: { type: 'string', description: 'Path to the PDF form, absolute or relative to the uploads directory' },
+          formData: { type: 'object', description: 'Values keyed by form field name' },
+          outputFilename: { type: 'string', description: 'Optional filename for the filled PDF' },
+          fields: {
+            type: 'array',
+            description: 'Field definitions with page and coordinates, used to draw values onto flat PDFs',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                type: { type: 'string' },
+                location: {
+                  type: 'object',
+                  properties: {
+                    page: { type: 'number' },
+                    coordinates: { type: 'array', items: { type: 'number' }, minItems: 4, maxItems: 4 }
+                  }
+                }
+              },
+              required: ['name']
+            }
+          },
+          mode: {
+            type: 'string',
+            enum: ['auto', 'acroform', 'overlay'],
+            description: '"auto" draws onto the page when the PDF has no form fields and locations are given'
+          },
+          xfa: {
+            type: 'string',
+            enum: ['auto', 'datasets', 'strip'],
+            description: 'For XFA forms, write values into the XFA datasets too or remove the XFA layer; "auto" strips unless the PDF is encrypted'
+          }
+        },
+        required: ['formPath', 'formData']
+      },
+      handler: async (args, { signal }) => {
+        const formPath = this.resolveUploadPath(args.formPath);
+
+        if (!fs.existsSync(formPath)) {
+          throw new Error(`Form not found: ${formPath}`);
+        }
+
+        const filenameError = this.checkOutputFilename(args.outputFilename);
+        if (filenameError) {
+          throw new Error(filenameError);
+        }
+
+        const filename = args.outputFilename || `filled-${path.basename(formPath)}`;
+        return this.fillForm(formPath, args.formData, filename, args.fields, args.mode, args.xfa, signal);
+      }
+    });
+
+    this.registerTool({
+      name: 'convert-to-fillable',
+      description: 'Add AcroForm text fields and checkboxes to a flat PDF where its boxes, squares and blank lines are',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pdfPath: { type: 'string', description: 'Path to the flat PDF, absolute or relative to the uploads directory' },
+          outputFilename: { type: 'string', description: 'Optional filename for the fillable PDF' }
+        },
+        required: ['pdfPath']
+      },
+      handler: async (args) => {
+        const pdfPath = this.resolveUploadPath(args.pdfPath);
+
+        if (!fs.existsSync(pdfPath)) {
+          throw new Error(`PDF not found: ${pdfPath}`);
+        }
+
+        if (await hasFormFields(pdfPath)) {
+          throw new Error('PDF already has form fields');
+        }
+
+        const filenameError = this.checkOutputFilename(args.outputFilename);
+        if (filenameError) {
+          throw new Error(filenameError);
+        }
+
+        return this.convertToFillable(pdfPath, args.outputFilename);
+      }
+    });
+  }
+
   private async processDocumentHandler(req: Request, res: Response): Promise<void> {
     try {
       const request = req.body as FormFillingRequest;
@@ -46,10 +171,14 @@ export class FormFillingServer extends BaseMCPServer {
         return;
       }
 
+      const filenameError = this.checkOutputFilename(request.outputFilename);
+      if (filenameError) {
+        res.status(400).json({ error: filenameError });
+        return;
+      }
+
       // Check if form exists
-      const formPath = path.isAbsolute(request.formPath)
-        ? request.formPath
-        : path.resolve(ServerConfig.uploadsDir, request.formPath);
+      const formPath = this.resolveUploadPath(request.formPath);
 
       if (!fs.existsSync(formPath)) {
         res.status(404).json({
@@ -60,9 +189,7 @@ export class FormFillingServer extends BaseMCPServer {
       }
 
       // Check if all donor documents exist
-      const donorDocumentPaths = request.donorDocuments.map(doc =>
-        path.isAbsolute(doc) ? doc : path.resolve(ServerConfig.uploadsDir, doc)
-      );
+      const donorDocumentPaths = request.donorDocuments.map(doc => this.resolveUploadPath(doc));
 
       for (const docPath of donorDocumentPaths) {
         if (!fs.existsSync(docPath)) {
@@ -110,6 +237,11 @@ export class FormFillingServer extends BaseMCPServer {
         });
       }
     } catch (error) {
+      if (error instanceof UploadPathError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
       this.logError(error as Error);
       res.status(500).json({
         error: 'Document processing failed',
@@ -118,6 +250,94 @@ export class FormFillingServer extends BaseMCPServer {
     }
   }
 
+  private async convertToFillableHandler(req: Request, res: Response): Promise<void> {
+    try {
+      const request = req.body as ConversionRequest;
+
+      if (!request.pdfPath) {
+        res.status(400).json({ error: 'PDF path is required' });
+        return;
+      }
+
+      const filenameError = this.checkOutputFilename(request.outputFilename);
+      if (filenameError) {
+        res.status(400).json({ error: filenameError });
+        return;
+      }
+
+      const pdfPath = this.resolveUploadPath(request.pdfPath);
+
+      if (!fs.existsSync(pdfPath)) {
+        res.status(404).json({
+          error: 'PDF not found',
+          path: pdfPath
+        });
+        return;
+      }
+
+      if (await hasFormFields(pdfPath)) {
+        res.status(400).json({
+          error: 'PDF already has form fields',
+          path: pdfPath
+        });
+        return;
+      }
+
+      res.json(await this.convertToFillable(pdfPath, request.outputFilename));
+    } catch (error) {
+      if (error instanceof UploadPathError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
+      this.logError(error as Error);
+      res.status(500).json({
+        error: 'Conversion failed',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Why a requested output filename cannot be used, if it cannot. Outputs
+   * are written into this server's own directories, so the name may not
+   * lead out of them.
+   */
+  private checkOutputFilename(filename: unknown): string | undefined {
+    if (filename === undefined) {
+      return undefined;
+    }
+
+    if (typeof filename !== 'string' || !filename || filename === '.' || filename === '..' ||
+        filename.includes('/') || filename.includes('\\') || filename.includes('\0')) {
+      return `Invalid output filename: ${JSON.stringify(filename)}; give a file name without directories`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Save a copy of a flat PDF with form fields added, ready for the fill path
+   * and the native field inventory
+   */
+  private async convertToFillable(pdfPath: string, outputFilename?: string): Promise<Record<string, any>> {
+    const filename = outputFilename || `fillable-${path.basename(pdfPath)}`;
+    const outputPath = path.join(this.fillableDir, filename);
+
+    console.log(`[${this.serverName}] Converting flat PDF to fillable form: ${pdfPath}`);
+    const fields = await this.acroFormConverter.convert(pdfPath, outputPath);
+
+    return {
+      status: 'success',
+      message: `Added ${fields.length} form fields`,
+      fillableForm: {
+        path: outputPath,
+        filename: path.basename(outputPath)
+      },
+      fields
+    };
+  }
+
   private async fillFormHandler(req: Request, res: Response): Promise<void> {
     try {
       const request = req.body as FormFillingRequest;
@@ -134,10 +354,14 @@ export class FormFillingServer extends BaseMCPServer {
         return;
       }
 
+      const filenameError = this.checkOutputFilename(request.outputFilename);
+      if (filenameError) {
+        res.status(400).json({ error: filenameError });
+        return;
+      }
+
       // Check if form exists
-      const formPath = path.isAbsolute(request.formPath)
-        ? request.formPath
-        : path.resolve(ServerConfig.uploadsDir, request.formPath);
+      const formPath = this.resolveUploadPath(request.formPath);
 
       if (!fs.existsSync(formPath)) {
         res.status(404).json({
@@ -149,45 +373,14 @@ export class FormFillingServer extends BaseMCPServer {
 
       // Generate output filename
       const filename = request.outputFilename || `filled-${path.basename(formPath)}`;
-      const outputPath = path.join(this.outputDir, filename);
-
-      // Try filling the form using Python first
-      try {
-        console.log(`[${this.serverName}] Filling form using Python FormFiller`);
-        const pythonResult = await this.pythonBridge.fillPdf(
-          formPath,
-          request.formData,
-          outputPath
-        );
 
-        console.log(`[${this.serverName}] Python FormFiller result: ${pythonResult}`);
-
-        res.json({
-          status: 'success',
-          message: 'Form filled successfully with Python FormFiller',
-          filledForm: {
-            path: outputPath,
-            filename: path.basename(outputPath)
-          }
-        });
+      res.json(await this.fillForm(formPath, request.formData, filename, request.fields, request.mode, request.xfa));
+    } catch (error) {
+      if (error instanceof UploadPathError) {
+        res.status(400).json({ error: error.message });
         return;
-      } catch (pythonError) {
-        console.warn(`[${this.serverName}] Failed to fill form with Python FormFiller: ${pythonError}`);
-        console.log(`[${this.serverName}] Falling back to JavaScript implementation`);
       }
 
-      // Fall back to JavaScript implementation
-      const outputPathJS = await this.fillPdfFormJS(formPath, request.formData, filename);
-
-      res.json({
-        status: 'success',
-        message: 'Form filled successfully with JavaScript fallback',
-        filledForm: {
-          path: outputPathJS,
-          filename: path.basename(outputPathJS)
-        }
-      });
-    } catch (error) {
       this.logError(error as Error);
       res.status(500).json({
         error: 'Form filling failed',
@@ -196,6 +389,160 @@ export class FormFillingServer extends BaseMCPServer {
     }
   }
 
+  /**
+   * Fill a form with the Python FormFiller, falling back to pdf-lib. Flat
+   * PDFs are filled by drawing onto the page instead, and XFA forms are
+   * handled so the values show up in XFA-aware viewers too.
+   */
+  private async fillForm(
+    formPath: string,
+    formData: Record<string, any>,
+    filename: string,
+    fields?: FieldData[],
+    mode: FillMode = 'auto',
+    xfa: XfaHandling = 'auto',
+    signal?: AbortSignal
+  ): Promise<Record<string, any>> {
+    const outputPath = path.join(this.outputDir, filename);
+    const formInfo = await this.inspectForm(formPath);
+
+    if (this.shouldOverlay(formInfo, fields, mode)) {
+      console.log(`[${this.serverName}] Filling flat form by overlay`);
+      const overlay = await this.overlayFiller.fill(formPath, fields || [], formData, outputPath);
+
+      return {
+        status: 'success',
+        message: `Form filled by overlay (${overlay.drawn.length} fields drawn)`,
+        mode: 'overlay',
+        engine: 'overlay',
+        filledForm: {
+          path: outputPath,
+          filename: path.basename(outputPath)
+        },
+        overlay
+      };
+    }
+
+    if (formInfo?.type === 'xfa') {
+      throw new Error('Dynamic XFA forms have no AcroForm fields to fill');
+    }
+
+    const xfaHandling = formInfo?.hasXfa ? this.chooseXfaHandling(formInfo, xfa) : undefined;
+
+    if (xfaHandling === 'datasets') {
+      console.log(`[${this.serverName}] Filling XFA form and its datasets with pdf.js`);
+      const datasets = await this.xfaFormHandler.fillDatasets(formPath, formData, outputPath);
+
+      return {
+        status: 'success',
+        message: `Form filled with its XFA datasets (${datasets.filled.length} fields)`,
+        mode: 'acroform',
+        engine: 'xfa-datasets',
+        filledForm: {
+          path: outputPath,
+          filename: path.basename(outputPath)
+        },
+        xfa: {
+          formType: formInfo!.type,
+          handling: 'datasets',
+          note: 'Values were written to both the AcroForm fields and the XFA datasets',
+          unmatched: datasets.unmatched
+        }
+      };
+    }
+
+    const filled = await this.fillAcroForm(formPath, formData, filename, outputPath, signal);
+
+    const response: Record<string, any> = {
+      status: 'success',
+      message: filled.message,
+      mode: 'acroform',
+      engine: filled.engine,
+      filledForm: {
+        path: filled.path,
+        filename: path.basename(filled.path)
+      }
+    };
+
+    if (xfaHandling === 'strip') {
+      await this.xfaFormHandler.strip(filled.path);
+      response.xfa = {
+        formType: formInfo!.type,
+        handling: 'stripped',
+        note: 'The XFA layer was removed so viewers render the filled AcroForm fields'
+      };
+    }
+
+    return response;
+  }
+
+  private async fillAcroForm(
+    formPath: string,
+    formData: Record<string, any>,
+    filename: string,
+    outputPath: string,
+    signal?: AbortSignal
+  ): Promise<{ path: string; message: string; engine: FillEngine }> {
+    // Try filling the form using Python first
+    try {
+      console.log(`[${this.serverName}] Filling form using Python FormFiller`);
+      const pythonResult = await this.pythonBridge.fillPdf(
+        formPath,
+        formData,
+        outputPath,
+        signal
+      );
+
+      console.log(`[${this.serverName}] Python FormFiller result: ${pythonResult}`);
+
+      return { path: outputPath, message: 'Form filled successfully with Python FormFiller', engine: 'python-formfiller' };
+    } catch (pythonError) {
+      signal?.throwIfAborted();
+      console.warn(`[${this.serverName}] Failed to fill form with Python FormFiller: ${pythonError}`);
+      console.log(`[${this.serverName}] Falling back to JavaScript implementation`);
+    }
+
+    // Fall back to JavaScript implementation
+    const outputPathJS = await this.fillPdfFormJS(formPath, formData, filename);
+
+    return { path: outputPathJS, message: 'Form filled successfully with JavaScript fallback', engine: 'pdf-lib' };
+  }
+
+  private async inspectForm(formPath: string): Promise<FormInfo | undefined> {
+    try {
+      return await getFormInfo(formPath);
+    } catch (error) {
+      console.warn(`[${this.serverName}] Could not inspect form fields of ${formPath}:`, (error as Error).message);
+      return undefined;
+    }
+  }
+
+  private shouldOverlay(formInfo: FormInfo | undefined, fields: FieldData[] | undefined, mode: FillMode): boolean {
+    if (mode !== 'auto') {
+      return mode === 'overlay';
+    }
+
+    const hasLocations = (fields || []).some(field => field.location?.coordinates || field.widgets?.length);
+
+    return hasLocations && formInfo?.type === 'flat';
+  }
+
+  /**
+   * Stripping is preferred as every viewer then renders the same AcroForm,
+   * but pdf-lib cannot rewrite encrypted PDFs
+   */
+  private chooseXfaHandling(formInfo: FormInfo, xfa: XfaHandling): 'datasets' | 'strip' {
+    if (xfa === 'strip' && formInfo.encrypted) {
+      throw new Error('Cannot strip XFA from an encrypted PDF; use xfa "datasets" instead');
+    }
+
+    if (xfa !== 'auto') {
+      return xfa;
+    }
+
+    return formInfo.encrypted ? 'datasets' : 'strip';
+  }
+
   private async fillPdfFormJS(
     formPath: string,
     formData: Record<string, any>,
@@ -338,18 +685,12 @@ export class FormFillingServer extends BaseMCPServer {
     }
   }
 
-  private ensureDirectoryExists(dirPath: string): void {
-    if (!fs.existsSync(dirPath)) {
-      fs.mkdirSync(dirPath, { recursive: true });
-      console.log(`[${this.serverName}] Created directory: ${dirPath}`);
-    }
-  }
-
   private statusHandler(_req: Request, res: Response): void {
     res.json({
       status: 'healthy',
       uptime: process.uptime(),
       outputDirectory: this.outputDir,
+      fillableDirectory: this.fillableDir,
       timestamp: new Date().toISOString()
     });
   }
@@ -0,0 +1,370 @@
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.js';
+import { PDFPageProxy } from 'pdfjs-dist';
+import { FieldCoordinates } from '../../types/field-data';
+
+export interface DetectedField {
+  type: 'text' | 'checkbox';
+  page: number;
+  coordinates: FieldCoordinates;
+  multiline?: boolean;
+  // Text printed in the same run as the blank, e.g. "City:" in "City: ____"
+  label?: string;
+  source: 'box' | 'square' | 'line' | 'underscores';
+}
+
+interface Blank {
+  coordinates: FieldCoordinates;
+  label?: string;
+}
+
+interface PaintedRect {
+  coordinates: FieldCoordinates;
+  stroked: boolean;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+// Sizes in points
+const CHECKBOX_MIN = 6;
+const CHECKBOX_MAX = 16;
+const MIN_FIELD_WIDTH = 36;
+const MIN_BOX_HEIGHT = 10;
+const SINGLE_LINE_MAX_HEIGHT = 40;
+const MIN_LINE_LENGTH = 30;
+const LINE_THICKNESS = 1.5;
+const LINE_FIELD_HEIGHT = 12;
+
+const OPS = pdfjs.OPS;
+const STROKE_OPS = new Set<number>([
+  OPS.stroke, OPS.closeStroke, OPS.fillStroke, OPS.eoFillStroke, OPS.closeFillStroke, OPS.closeEOFillStroke
+]);
+const FILL_OPS = new Set<number>([OPS.fill, OPS.eoFill]);
+
+/**
+ * Finds where a flat form expects input by reading the vector graphics of
+ * each page: boxed regions, small squares for checkboxes, and rules or runs
+ * of underscores to write on.
+ */
+export class FormLayoutDetector {
+  public async detect(page: PDFPageProxy, pageNumber: number): Promise<DetectedField[]> {
+    const [, , pageWidth, pageHeight] = page.view;
+    const { rects, lines } = await this.readGraphics(page);
+    const underscores = await this.readUnderscores(page);
+
+    const detected: DetectedField[] = [];
+
+    for (const { coordinates, stroked } of rects) {
+      const [, , width, height] = coordinates;
+
+      if (stroked && this.isSquare(width, height)) {
+        detected.push({ type: 'checkbox', page: pageNumber, coordinates, source: 'square' });
+      } else if (stroked && width >= MIN_FIELD_WIDTH && height >= MIN_BOX_HEIGHT &&
+                 width < pageWidth * 0.9 && height < pageHeight * 0.5) {
+        detected.push({
+          type: 'text',
+          page: pageNumber,
+          coordinates,
+          multiline: height > SINGLE_LINE_MAX_HEIGHT,
+          source: 'box'
+        });
+      }
+    }
+
+    // Blanks to write on become single-line fields sitting on the rule
+    for (const [x, y, width] of lines) {
+      detected.push({ type: 'text', page: pageNumber, coordinates: [x, y, width, LINE_FIELD_HEIGHT], source: 'line' });
+    }
+
+    for (const { coordinates: [x, y, width], label } of underscores) {
+      const field: DetectedField = { type: 'text', page: pageNumber, coordinates: [x, y, width, LINE_FIELD_HEIGHT], source: 'underscores' };
+      if (label) {
+        field.label = label;
+      }
+      detected.push(field);
+    }
+
+    return this.dedupe(detected);
+  }
+
+  /**
+   * Walk the operator list, tracking the transformation matrix, and collect
+   * painted rectangles and horizontal rules in page space
+   */
+  private async readGraphics(page: PDFPageProxy): Promise<{ rects: PaintedRect[]; lines: FieldCoordinates[] }> {
+    const operatorList = await page.getOperatorList();
+    const rects: PaintedRect[] = [];
+    const lines: FieldCoordinates[] = [];
+
+    let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+    const stack: Matrix[] = [];
+    let pendingRects: FieldCoordinates[] = [];
+    let pendingSegments: Array<[number, number, number, number]> = [];
+
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+      const fn = operatorList.fnArray[i];
+      const args = operatorList.argsArray[i];
+
+      switch (fn) {
+        case OPS.save:
+          stack.push(ctm);
+          break;
+        case OPS.restore:
+          ctm = stack.pop() || ctm;
+          break;
+        case OPS.transform:
+          ctm = this.multiply(args as Matrix, ctm);
+          break;
+        case OPS.paintFormXObjectBegin:
+          stack.push(ctm);
+          if (Array.isArray(args[0]) && args[0].length === 6) {
+            ctm = this.multiply(args[0] as Matrix, ctm);
+          }
+          break;
+        case OPS.paintFormXObjectEnd:
+          ctm = stack.pop() || ctm;
+          break;
+        case OPS.constructPath: {
+          const [pathOps, pathArgs] = args as [number[], number[]];
+          const path = this.readPath(pathOps, pathArgs, ctm);
+          pendingRects.push(...path.rects);
+          pendingSegments.push(...path.segments);
+          break;
+        }
+        default:
+          if (STROKE_OPS.has(fn) || FILL_OPS.has(fn) || fn === OPS.endPath) {
+            const stroked = STROKE_OPS.has(fn);
+            const painted = fn !== OPS.endPath;
+
+            if (painted) {
+              for (const rect of pendingRects) {
+                const [x, y, width, height] = rect;
+
+                // Thin filled rectangles are how many generators draw rules
+                if (height <= LINE_THICKNESS && width >= MIN_LINE_LENGTH) {
+                  lines.push([x, y, width, 0]);
+                } else {
+                  rects.push({ coordinates: rect, stroked });
+                }
+              }
+
+              if (stroked) {
+                for (const [x1, y1, x2, y2] of pendingSegments) {
+                  if (Math.abs(y2 - y1) < 0.5 && Math.abs(x2 - x1) >= MIN_LINE_LENGTH) {
+                    lines.push([Math.min(x1, x2), y1, Math.abs(x2 - x1), 0]);
+                  }
+                }
+              }
+            }
+
+            pendingRects = [];
+            pendingSegments = [];
+          }
+      }
+    }
+
+    return { rects, lines: this.dropBoxEdges(lines, rects) };
+  }
+
+  /**
+   * Rectangles come either from "re" or from a closed path of four
+   * axis-aligned sides; any other straight sides are kept as segments
+   */
+  private readPath(
+    pathOps: number[],
+    pathArgs: number[],
+    ctm: Matrix
+  ): { rects: FieldCoordinates[]; segments: Array<[number, number, number, number]> } {
+    const rects: FieldCoordinates[] = [];
+    const segments: Array<[number, number, number, number]> = [];
+    let argIndex = 0;
+    let subpath: Array<[number, number]> = [];
+
+    const endSubpath = (closed: boolean) => {
+      const rect = closed || this.isClosed(subpath) ? this.toRect(subpath) : undefined;
+
+      if (rect) {
+        rects.push(rect);
+      } else {
+        for (let i = 1; i < subpath.length; i++) {
+          segments.push([...subpath[i - 1], ...subpath[i]]);
+        }
+      }
+
+      subpath = [];
+    };
+
+    for (const op of pathOps) {
+      switch (op) {
+        case OPS.rectangle: {
+          const [x, y, width, height] = pathArgs.slice(argIndex, argIndex + 4);
+          argIndex += 4;
+          rects.push(this.transformRect(x, y, width, height, ctm));
+          break;
+        }
+        case OPS.moveTo:
+          endSubpath(false);
+          subpath = [this.apply(ctm, pathArgs[argIndex], pathArgs[argIndex + 1])];
+          argIndex += 2;
+          break;
+        case OPS.lineTo:
+          subpath.push(this.apply(ctm, pathArgs[argIndex], pathArgs[argIndex + 1]));
+          argIndex += 2;
+          break;
+        case OPS.curveTo:
+          // Curves end any chance of a rectangle or a rule
+          subpath = [this.apply(ctm, pathArgs[argIndex + 4], pathArgs[argIndex + 5])];
+          argIndex += 6;
+          break;
+        case OPS.curveTo2:
+        case OPS.curveTo3:
+          subpath = [this.apply(ctm, pathArgs[argIndex + 2], pathArgs[argIndex + 3])];
+          argIndex += 4;
+          break;
+        case OPS.closePath:
+          endSubpath(true);
+          break;
+        default:
+          break;
+      }
+    }
+
+    endSubpath(false);
+    return { rects, segments };
+  }
+
+  private isClosed(points: Array<[number, number]>): boolean {
+    if (points.length < 5) {
+      return false;
+    }
+
+    const [first, last] = [points[0], points[points.length - 1]];
+    return Math.abs(first[0] - last[0]) < 0.5 && Math.abs(first[1] - last[1]) < 0.5;
+  }
+
+  /**
+   * The bounds of four axis-aligned sides, or undefined for any other shape
+   */
+  private toRect(points: Array<[number, number]>): FieldCoordinates | undefined {
+    const corners = this.isClosed(points) ? points.slice(0, -1) : points;
+
+    if (corners.length !== 4) {
+      return undefined;
+    }
+
+    for (let i = 0; i < 4; i++) {
+      const [x1, y1] = corners[i];
+      const [x2, y2] = corners[(i + 1) % 4];
+      if (Math.abs(x1 - x2) >= 0.5 && Math.abs(y1 - y2) >= 0.5) {
+        return undefined;
+      }
+    }
+
+    const xs = corners.map(([x]) => x);
+    const ys = corners.map(([, y]) => y);
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)];
+  }
+
+  /**
+   * Runs of three or more underscores in the text layer, e.g. "Name: ________"
+   */
+  private async readUnderscores(page: PDFPageProxy): Promise<Blank[]> {
+    const content = await page.getTextContent();
+    const blanks: Blank[] = [];
+
+    for (const item of content.items) {
+      if (!('str' in item) || !item.str.includes('___')) {
+        continue;
+      }
+
+      const charWidth = item.width / item.str.length;
+      const [, , , , x, y] = item.transform;
+
+      let previousEnd = 0;
+      for (const match of item.str.matchAll(/_{3,}/g)) {
+        const width = match[0].length * charWidth;
+        const label = item.str.slice(previousEnd, match.index).replace(/_+/g, ' ').trim();
+        previousEnd = match.index! + match[0].length;
+
+        if (width >= MIN_FIELD_WIDTH / 2) {
+          blanks.push({ coordinates: [x + match.index! * charWidth, y - 1, width, 0], label: label || undefined });
+        }
+      }
+    }
+
+    return blanks;
+  }
+
+  /**
+   * Rules that are just the edges of a box would duplicate the box
+   */
+  private dropBoxEdges(lines: FieldCoordinates[], rects: PaintedRect[]): FieldCoordinates[] {
+    return lines.filter(([x, y, width]) => !rects.some(({ coordinates: [rx, ry, rw, rh] }) =>
+      x >= rx - 2 && x + width <= rx + rw + 2 && (Math.abs(y - ry) < 2 || Math.abs(y - (ry + rh)) < 2)
+    ));
+  }
+
+  /**
+   * Keep the first of any detections covering mostly the same area; boxes
+   * and squares come before rules
+   */
+  private dedupe(fields: DetectedField[]): DetectedField[] {
+    const kept: DetectedField[] = [];
+
+    for (const field of fields) {
+      const overlaps = kept.some(other => this.overlapRatio(field.coordinates, other.coordinates) > 0.5);
+      if (!overlaps) {
+        kept.push(field);
+      }
+    }
+
+    return kept;
+  }
+
+  private overlapRatio(a: FieldCoordinates, b: FieldCoordinates): number {
+    const width = Math.min(a[0] + a[2], b[0] + b[2]) - Math.max(a[0], b[0]);
+    const height = Math.min(a[1] + a[3], b[1] + b[3]) - Math.max(a[1], b[1]);
+
+    if (width <= 0 || height <= 0) {
+      return 0;
+    }
+
+    return (width * height) / Math.min(a[2] * a[3], b[2] * b[3]);
+  }
+
+  private isSquare(width: number, height: number): boolean {
+    return width >= CHECKBOX_MIN && width <= CHECKBOX_MAX &&
+      height >= CHECKBOX_MIN && height <= CHECKBOX_MAX &&
+      Math.abs(width - height) <= 2;
+  }
+
+  private transformRect(x: number, y: number, width: number, height: number, ctm: Matrix): FieldCoordinates {
+    const corners = [
+      this.apply(ctm, x, y),
+      this.apply(ctm, x + width, y),
+      this.apply(ctm, x, y + height),
+      this.apply(ctm, x + width, y + height)
+    ];
+    const xs = corners.map(([cx]) => cx);
+    const ys = corners.map(([, cy]) => cy);
+
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)];
+  }
+
+  private apply([a, b, c, d, e, f]: Matrix, x: number, y: number): [number, number] {
+    return [a * x + c * y + e, b * x + d * y + f];
+  }
+
+  /**
+   * m1 applied after m2, as in the PDF "cm" operator
+   */
+  private multiply(m1: Matrix, m2: Matrix): Matrix {
+    return [
+      m1[0] * m2[0] + m1[1] * m2[2],
+      m1[0] * m2[1] + m1[1] * m2[3],
+      m1[2] * m2[0] + m1[3] * m2[2],
+      m1[2] * m2[1] + m1[3] * m2[3],
+      m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+      m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+    ];
+  }
+}
@@ -0,0 +1,211 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import fs from 'fs';
+import { FieldCoordinates, FieldData } from '../../types/field-data';
+
+export interface OverlayResult {
+  drawn: string[];
+  skipped: Array<{ field: string; reason: string }>;
+}
+
+const DEFAULT_FONT_SIZE = 10;
+const MIN_FONT_SIZE = 6;
+const LINE_SPACING = 1.15;
+const PADDING = 2;
+
+/**
+ * Fills flat PDFs by drawing values onto the page at each field's location,
+ * for forms that have no AcroForm fields to set. The result is a plain,
+ * printable PDF.
+ */
+export class OverlayFiller {
+  public async fill(
+    formPath: string,
+    fields: FieldData[],
+    formData: Record<string, any>,
+    outputPath: string
+  ): Promise<OverlayResult> {
+    const pdfDoc = await PDFDocument.load(fs.readFileSync(formPath));
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const pages = pdfDoc.getPages();
+
+    const result: OverlayResult = { drawn: [], skipped: [] };
+
+    for (const field of fields) {
+      const value = formData[field.name];
+
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+
+      const targets = this.getTargets(field, value);
+
+      if (targets.length === 0) {
+        result.skipped.push({ field: field.name, reason: 'No page coordinates for this value' });
+        continue;
+      }
+
+      for (const target of targets) {
+        const page = pages[target.page - 1];
+
+        if (!page) {
+          result.skipped.push({ field: field.name, reason: `Page ${target.page} does not exist` });
+          continue;
+        }
+
+        if (this.isButton(field.type)) {
+          this.drawCheckmark(page, target.coordinates);
+        } else {
+          this.drawText(page, font, this.formatValue(value), target.coordinates, field.maxLength);
+        }
+      }
+
+      result.drawn.push(field.name);
+    }
+
+    fs.writeFileSync(outputPath, await pdfDoc.save());
+    return result;
+  }
+
+  /**
+   * Where to draw a value: checkboxes only when checked, radio groups on the
+   * widget whose export value was selected
+   */
+  private getTargets(field: FieldData, value: any): Array<{ page: number; coordinates: FieldCoordinates }> {
+    const widgets = field.widgets && field.widgets.length > 0
+      ? field.widgets
+      : field.location?.coordinates
+        ? [{ page: field.location.page, coordinates: field.location.coordinates, exportValue: undefined }]
+        : [];
+
+    if (field.type === 'radio') {
+      return widgets.filter(widget => widget.exportValue !== undefined && widget.exportValue === String(value));
+    }
+
+    if (field.type === 'checkbox') {
+      return this.isChecked(value) ? widgets.slice(0, 1) : [];
+    }
+
+    return widgets.slice(0, 1);
+  }
+
+  private drawText(
+    page: PDFPage,
+    font: PDFFont,
+    rawText: string,
+    coordinates: FieldCoordinates,
+    maxLength?: number
+  ): void {
+    const [x, y, width, height] = coordinates;
+    const text = this.encodable(font, maxLength ? rawText.slice(0, maxLength) : rawText);
+    const innerWidth = Math.max(width - PADDING * 2, 1);
+
+    let size = Math.min(DEFAULT_FONT_SIZE, Math.max(height - PADDING, MIN_FONT_SIZE));
+    let lines = this.wrap(font, text, size, innerWidth);
+
+    // Shrink until the lines fit the box, down to the minimum legible size
+    while (size > MIN_FONT_SIZE &&
+           (lines.length * size * LINE_SPACING > height || lines.some(line => font.widthOfTextAtSize(line, size) > innerWidth))) {
+      size -= 0.5;
+      lines = this.wrap(font, text, size, innerWidth);
+    }
+
+    const lineHeight = size * LINE_SPACING;
+    const maxLines = Math.max(1, Math.floor(height / lineHeight));
+
+    if (lines.length === 1) {
+      // Single values sit on the vertical middle of the box
+      page.drawText(lines[0], {
+        x: x + PADDING,
+        y: y + (height - size) / 2 + size * 0.22,
+        size,
+        font,
+        color: rgb(0, 0, 0)
+      });
+      return;
+    }
+
+    lines.slice(0, maxLines).forEach((line, index) => {
+      page.drawText(line, {
+        x: x + PADDING,
+        y: y + height - (index + 1) * lineHeight + (lineHeight - size),
+        size,
+        font,
+        color: rgb(0, 0, 0)
+      });
+    });
+  }
+
+  private drawCheckmark(page: PDFPage, coordinates: FieldCoordinates): void {
+    const [x, y, width, height] = coordinates;
+    const thickness = Math.max(Math.min(width, height) / 8, 0.75);
+
+    page.drawLine({
+      start: { x: x + width * 0.2, y: y + height * 0.5 },
+      end: { x: x + width * 0.42, y: y + height * 0.22 },
+      thickness,
+      color: rgb(0, 0, 0)
+    });
+    page.drawLine({
+      start: { x: x + width * 0.42, y: y + height * 0.22 },
+      end: { x: x + width * 0.82, y: y + height * 0.82 },
+      thickness,
+      color: rgb(0, 0, 0)
+    });
+  }
+
+  /**
+   * Break text into lines no wider than the box, honouring explicit newlines
+   */
+  private wrap(font: PDFFont, text: string, size: number, maxWidth: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let current = '';
+
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word;
+
+        if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      }
+
+      lines.push(current);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Standard fonts only cover WinAnsi; replace anything else
+   */
+  private encodable(font: PDFFont, text: string): string {
+    return Array.from(text).map(char => {
+      try {
+        font.encodeText(char);
+        return char;
+      } catch {
+        return '?';
+      }
+    }).join('');
+  }
+
+  private formatValue(value: any): string {
+    if (Array.isArray(value)) {
+      return value.join(', ');
+    }
+
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private isChecked(value: any): boolean {
+    return value === true || value === 'true' || value === 'yes' || value === 'checked';
+  }
+
+  private isButton(type: string): boolean {
+    return type === 'checkbox' || type === 'radio';
+  }
+}
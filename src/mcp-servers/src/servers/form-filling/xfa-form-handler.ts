@@ -0,0 +1,97 @@
+import { PDFDocument, PDFName } from 'pdf-lib';
+import fs from 'fs';
+import { loadPdfDocument } from '../../services/pdf-reader';
+
+export interface DatasetsFillResult {
+  filled: string[];
+  unmatched: string[];
+}
+
+/**
+ * Field object as reported by pdf.js getFieldObjects(), one per widget
+ */
+interface FieldObject {
+  id: string;
+  type: string;
+  exportValues?: string;
+}
+
+/**
+ * Keeps filled values visible on XFA forms, whose XFA layer is what
+ * XFA-aware viewers render. Either the values are written into the XFA
+ * datasets alongside the AcroForm fields, or the XFA packet is removed so
+ * viewers fall back to the AcroForm.
+ */
+export class XfaFormHandler {
+  /**
+   * Fill the AcroForm fields with pdf.js, which mirrors every value into the
+   * XFA datasets when saving. The original is kept byte for byte and the
+   * changes are appended as an incremental update, so this also works on
+   * forms encrypted with an owner password.
+   */
+  public async fillDatasets(
+    formPath: string,
+    formData: Record<string, any>,
+    outputPath: string
+  ): Promise<DatasetsFillResult> {
+    const doc = await loadPdfDocument(formPath);
+
+    try {
+      const fieldObjects = (await doc.getFieldObjects() || {}) as Record<string, FieldObject[]>;
+      const result: DatasetsFillResult = { filled: [], unmatched: [] };
+
+      for (const [key, value] of Object.entries(formData)) {
+        const name = fieldObjects[key]
+          ? key
+          : Object.keys(fieldObjects).find(fieldName => fieldName.toLowerCase() === key.toLowerCase());
+
+        if (!name || value === undefined || value === null) {
+          result.unmatched.push(key);
+          continue;
+        }
+
+        for (const widget of fieldObjects[name]) {
+          doc.annotationStorage.setValue(widget.id, { value: this.toStorageValue(widget, value) });
+        }
+
+        result.filled.push(name);
+      }
+
+      fs.writeFileSync(outputPath, await doc.saveDocument());
+      return result;
+    } finally {
+      await doc.destroy();
+    }
+  }
+
+  /**
+   * Remove the XFA packet from a saved PDF so viewers render its AcroForm.
+   * pdf-lib cannot rewrite encrypted documents, so this only works on
+   * unencrypted ones.
+   */
+  public async strip(pdfPath: string): Promise<void> {
+    const pdfDoc = await PDFDocument.load(fs.readFileSync(pdfPath));
+
+    pdfDoc.catalog.getAcroForm()?.dict.delete(PDFName.of('XFA'));
+
+    // Tells viewers to regenerate the page from the XFA template
+    pdfDoc.catalog.delete(PDFName.of('NeedsRendering'));
+
+    fs.writeFileSync(pdfPath, await pdfDoc.save());
+  }
+
+  /**
+   * Checkboxes take a boolean and each radio widget whether it is the chosen
+   * one; text and choice fields take the value itself
+   */
+  private toStorageValue(widget: FieldObject, value: any): string | string[] | boolean {
+    switch (widget.type) {
+      case 'checkbox':
+        return value === true || value === 'true' || value === 'yes' || value === 'checked';
+      case 'radiobutton':
+        return widget.exportValues === String(value);
+      default:
+        return Array.isArray(value) ? value.map(v => String(v)) : String(value);
+    }
+  }
+}
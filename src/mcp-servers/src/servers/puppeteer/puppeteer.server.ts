@@ -3,6 +3,7 @@ import { BaseMCPServer } from '../base.server';
 import puppeteer, { Browser, Page } from 'puppeteer';
 import fs from 'fs';
 import path from 'path';
+import { fileURLToPath } from 'url';
 import ServerConfig from '../../config/server.config';
 
 export class PuppeteerServer extends BaseMCPServer {
@@ -20,6 +21,30 @@ export class PuppeteerServer extends BaseMCPServer {
     this.app.get('/status', this.statusHandler.bind(this));
   }
 
+  protected setupTools(): void {
+    this.registerTool({
+      name: 'download-pdf',
+      description: 'Download a PDF from a URL into the uploads directory and return its local path',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', description: 'URL of the PDF to download' },
+          filename: { type: 'string', description: 'Optional filename for the downloaded PDF' }
+        },
+        required: ['url']
+      },
+      handler: async (args, { signal }) => {
+        const outputPath = await this.downloadPdf(args.url, args.filename, signal);
+
+        return {
+          status: 'success',
+          message: 'PDF downloaded successfully',
+          path: outputPath
+        };
+      }
+    });
+  }
+
   private async initBrowser(): Promise<Browser> {
     if (!this.browser) {
       console.log(`[${this.serverName}] Initializing browser...`);
@@ -69,12 +94,24 @@ export class PuppeteerServer extends BaseMCPServer {
     }
   }
 
-  private async downloadPdf(url: string, customFilename?: string): Promise<string> {
+  private async downloadPdf(url: string, customFilename?: string, signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+
+    if (url.startsWith('file:')) {
+      return this.copyLocalPdf(url, customFilename);
+    }
+
     const browser = await this.initBrowser();
     const page = await browser.newPage();
 
+    // Closing the page makes a pending navigation fail
+    const closePage = () => {
+      page.close().catch(() => undefined);
+    };
+    signal?.addEventListener('abort', closePage, { once: true });
+
     // Generate a filename if not provided
-    const filename = customFilename || `download-${Date.now()}.pdf`;
+    const filename = customFilename || `download-${Date.now()}-${Math.round(Math.random() * 1E9)}.pdf`;
     const outputPath = path.join(this.downloadPath, filename);
 
     console.log(`[${this.serverName}] Downloading PDF from ${url}`);
@@ -111,10 +148,39 @@ export class PuppeteerServer extends BaseMCPServer {
       return outputPath;
     } catch (error) {
       console.error(`[${this.serverName}] Download error:`, error);
+      signal?.throwIfAborted();
       throw error;
+    } finally {
+      signal?.removeEventListener('abort', closePage);
     }
   }
 
+  /**
+   * Copy a form from LOCAL_FORMS_DIR, so workflows can run without network
+   * access. Other local files are refused.
+   */
+  private async copyLocalPdf(url: string, customFilename?: string): Promise<string> {
+    const localFormsDir = ServerConfig.localFormsDir;
+
+    if (!localFormsDir) {
+      throw new Error('file:// URLs are not allowed; set LOCAL_FORMS_DIR to enable them');
+    }
+
+    const sourcePath = path.resolve(fileURLToPath(url));
+
+    if (!sourcePath.startsWith(localFormsDir + path.sep)) {
+      throw new Error(`Local forms must be inside ${localFormsDir}`);
+    }
+
+    const filename = customFilename || `download-${Date.now()}-${Math.round(Math.random() * 1E9)}.pdf`;
+    const outputPath = path.join(this.downloadPath, filename);
+
+    await fs.promises.copyFile(sourcePath, outputPath);
+    console.log(`[${this.serverName}] Copied local PDF ${sourcePath} to ${outputPath}`);
+
+    return outputPath;
+  }
+
   private statusHandler(_req: Request, res: Response): void {
     res.json({
       status: 'healthy',
@@ -124,18 +190,13 @@ export class PuppeteerServer extends BaseMCPServer {
     });
   }
 
-  private ensureDirectoryExists(dirPath: string): void {
-    if (!fs.existsSync(dirPath)) {
-      fs.mkdirSync(dirPath, { recursive: true });
-      console.log(`[${this.serverName}] Created directory: ${dirPath}`);
-    }
-  }
-
   public async shutdown(): Promise<void> {
     if (this.browser) {
       await this.browser.close();
       this.browser = null;
       console.log(`[${this.serverName}] Browser closed`);
     }
+
+    await super.shutdown();
   }
 }
\ No newline at end of file
@@ -0,0 +1,262 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import ServerConfig from '../config/server.config';
+import { sha256File } from '../orchestration/file-hash';
+
+// 'hit' answers came from the cache, 'miss' ones were computed and stored,
+// 'bypass' ones were computed without the cache
+export type CacheOutcome = 'hit' | 'miss' | 'bypass';
+
+export interface CacheKey {
+  // What was asked, e.g. extract-fields
+  task: string;
+  documentSha256: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  targetFields?: string[];
+  // Anything else that changes the answer, e.g. the analysis mode
+  variant?: Record<string, any>;
+}
+
+export interface CachedResult<T> {
+  value: T;
+  cache: CacheOutcome;
+}
+
+interface CacheEntry {
+  key: CacheKey;
+  createdAt: string;
+  expiresAt: string;
+  value: any;
+}
+
+export interface CacheInvalidation {
+  task?: string;
+  documentSha256?: string;
+  provider?: string;
+}
+
+interface TaskStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  expired: number;
+  invalidated: number;
+}
+
+export interface CacheConfig {
+  dir: string;
+  enabled: boolean;
+  ttl: number;
+  taskTtls: Record<string, number>;
+}
+
+/**
+ * Answers of AI analysis and extraction, stored on disk by the SHA-256 of
+ * the document together with the provider, model, prompt version and
+ * target fields that produced them. The same form or donor document is
+ * only sent to a model again once its answer has expired or been
+ * invalidated.
+ *
+ * Entries live at `<dir>/<task>/<document sha256>/<key hash>.json`.
+ */
+export class AnalysisCache {
+  private config: CacheConfig;
+  private stats: Map<string, TaskStats>;
+
+  constructor(config: CacheConfig = {
+    dir: ServerConfig.analysisCacheDir,
+    enabled: ServerConfig.analysisCacheEnabled,
+    ttl: ServerConfig.analysisCacheTtl,
+    taskTtls: ServerConfig.analysisCacheTaskTtls
+  }) {
+    this.config = config;
+    this.stats = new Map();
+  }
+
+  public async documentHash(documentPath: string): Promise<string> {
+    return sha256File(documentPath);
+  }
+
+  /**
+   * The cached answer for the key, or compute and store it. `refresh`
+   * ignores a cached answer and replaces it; answers `store` turns down,
+   * e.g. empty ones, are not kept.
+   */
+  public async remember<T>(
+    key: CacheKey,
+    compute: () => Promise<T>,
+    options: { refresh?: boolean; store?: (value: T) => boolean } = {}
+  ): Promise<CachedResult<T>> {
+    if (!this.config.enabled) {
+      return { value: await compute(), cache: 'bypass' };
+    }
+
+    const stats = this.taskStats(key.task);
+    const entryPath = this.entryPath(key);
+
+    if (!options.refresh) {
+      const entry = this.read(entryPath);
+
+      if (entry && Date.parse(entry.expiresAt) > Date.now()) {
+        stats.hits++;
+        return { value: entry.value, cache: 'hit' };
+      }
+
+      if (entry) {
+        stats.expired++;
+        fs.rmSync(entryPath, { force: true });
+      }
+    }
+
+    stats.misses++;
+    const value = await compute();
+
+    if (!options.store || options.store(value)) {
+      this.write(entryPath, key, value);
+      stats.writes++;
+    }
+
+    return { value, cache: 'miss' };
+  }
+
+  /**
+   * Remove the entries of a task, a document or a provider, or all of them
+   * when nothing is given. Returns how many were removed.
+   */
+  public invalidate(filter: CacheInvalidation = {}): number {
+    let removed = 0;
+
+    for (const task of this.listDirs(this.config.dir)) {
+      if (filter.task && task !== filter.task) {
+        continue;
+      }
+
+      const removedBefore = removed;
+
+      for (const documentSha256 of this.listDirs(path.join(this.config.dir, task))) {
+        if (filter.documentSha256 && documentSha256 !== filter.documentSha256) {
+          continue;
+        }
+
+        const documentDir = path.join(this.config.dir, task, documentSha256);
+
+        for (const file of fs.readdirSync(documentDir)) {
+          const entryPath = path.join(documentDir, file);
+
+          if (filter.provider && this.read(entryPath)?.key.provider !== filter.provider) {
+            continue;
+          }
+
+          fs.rmSync(entryPath, { force: true });
+          removed++;
+        }
+
+        if (fs.readdirSync(documentDir).length === 0) {
+          fs.rmdirSync(documentDir);
+        }
+      }
+
+      this.taskStats(task).invalidated += removed - removedBefore;
+    }
+
+    console.log(`[AnalysisCache] Invalidated ${removed} entries`, filter);
+    return removed;
+  }
+
+  /**
+   * Hit and miss counts since startup and the number of stored entries,
+   * for the given tasks
+   */
+  public status(tasks: string[]): Record<string, any> {
+    return {
+      enabled: this.config.enabled,
+      tasks: Object.fromEntries(tasks.map(task => [task, {
+        ...this.taskStats(task),
+        ttl: this.ttlFor(task),
+        entries: this.countEntries(task)
+      }]))
+    };
+  }
+
+  private ttlFor(task: string): number {
+    return this.config.taskTtls[task] ?? this.config.ttl;
+  }
+
+  private taskStats(task: string): TaskStats {
+    let stats = this.stats.get(task);
+
+    if (!stats) {
+      stats = { hits: 0, misses: 0, writes: 0, expired: 0, invalidated: 0 };
+      this.stats.set(task, stats);
+    }
+
+    return stats;
+  }
+
+  private entryPath(key: CacheKey): string {
+    const keyHash = crypto.createHash('sha256').update(JSON.stringify([
+      key.provider,
+      key.model,
+      key.promptVersion,
+      // Field order does not change the answer
+      [...(key.targetFields || [])].sort(),
+      key.variant || {}
+    ])).digest('hex');
+
+    return path.join(this.config.dir, key.task, key.documentSha256, `${keyHash}.json`);
+  }
+
+  private read(entryPath: string): CacheEntry | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(entryPath, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private write(entryPath: string, key: CacheKey, value: any): void {
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlFor(key.task)).toISOString(),
+      value
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(entryPath), { recursive: true });
+
+      // Written aside and renamed so readers never see half an entry
+      const tempPath = `${entryPath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(entry));
+      fs.renameSync(tempPath, entryPath);
+    } catch (error) {
+      // The answer is still returned, only not cached
+      console.error(`[AnalysisCache] Could not write ${entryPath}:`, (error as Error).message);
+    }
+  }
+
+  private countEntries(task: string): number {
+    const taskDir = path.join(this.config.dir, task);
+
+    return this.listDirs(taskDir)
+      .reduce((count, documentSha256) => count + fs.readdirSync(path.join(taskDir, documentSha256)).length, 0);
+  }
+
+  private listDirs(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name);
+  }
+}
+
+export const analysisCache = new AnalysisCache();
+
+export default analysisCache;
@@ -2,17 +2,10 @@ import { Request, Response } from 'express';
 import { BaseMCPServer } from '../servers/base.server';
 import axios from 'axios';
 import ServerConfig from '../config/server.config';
+import { FieldData } from '../types/field-data';
 
 interface MappingRequest {
-  formFields: Array<{
-    name: string;
-    type: string;
-    description: string;
-    location?: {
-      page: number;
-      coordinates?: number[];
-    };
-  }>;
+  formFields: FieldData[];
   donorData: Record<string, any>;
   confidence?: number;
 }
@@ -24,6 +17,9 @@ interface MappingResult {
   source: string;
 }
 
+// Words left out when matching printed labels, so "Your name:" reads as name
+const FILLER_WORDS = new Set(['a', 'an', 'and', 'any', 'at', 'for', 'i', 'if', 'in', 'my', 'of', 'on', 'or', 'the', 'this', 'to', 'your']);
+
 export class FieldMappingService extends BaseMCPServer {
   private confidenceThreshold: number;
 
@@ -37,6 +33,57 @@ export class FieldMappingService extends BaseMCPServer {
     this.app.get('/status', this.statusHandler.bind(this));
   }
 
+  protected setupTools(): void {
+    this.registerTool({
+      name: 'map-fields',
+      description: 'Map extracted donor data onto form fields',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          formFields: {
+            type: 'array',
+            description: 'Form fields as returned by extract-fields',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                type: { type: 'string' },
+                description: { type: 'string' },
+                context_clues: {
+                  type: ['object', 'array'],
+                  description: 'Label, item number and section printed around the field, or a list of nearby text'
+                }
+              },
+              required: ['name']
+            }
+          },
+          donorData: { type: 'object', description: 'Data extracted from the donor documents' },
+          confidence: { type: 'number', minimum: 0, maximum: 1, description: 'Minimum confidence for a mapping to be kept' }
+        },
+        required: ['formFields', 'donorData']
+      },
+      handler: async (args) => this.buildMappingResponse(args as MappingRequest)
+    });
+  }
+
+  private buildMappingResponse(request: MappingRequest): Record<string, any> {
+    // Apply custom confidence threshold if provided
+    const confidenceThreshold = request.confidence || this.confidenceThreshold;
+
+    // Map fields from donor data to form fields
+    const mappedFields = this.mapFields(request.formFields, request.donorData, confidenceThreshold);
+
+    return {
+      status: 'success',
+      mappedFields,
+      confidenceThreshold,
+      unmappedFormFields: request.formFields
+        .filter(field => !mappedFields.some(m => m.fieldName === field.name)),
+      unmappedDonorFields: Object.keys(request.donorData)
+        .filter(key => !mappedFields.some(m => m.source === key))
+    };
+  }
+
   private async mapFieldsHandler(req: Request, res: Response): Promise<void> {
     try {
       const request = req.body as MappingRequest;
@@ -46,21 +93,7 @@ export class FieldMappingService extends BaseMCPServer {
         return;
       }
 
-      // Apply custom confidence threshold if provided
-      const confidenceThreshold = request.confidence || this.confidenceThreshold;
-
-      // Map fields from donor data to form fields
-      const mappedFields = this.mapFields(request.formFields, request.donorData, confidenceThreshold);
-
-      res.json({
-        status: 'success',
-        mappedFields,
-        confidenceThreshold,
-        unmappedFormFields: request.formFields
-          .filter(field => !mappedFields.some(m => m.fieldName === field.name)),
-        unmappedDonorFields: Object.keys(request.donorData)
-          .filter(key => !mappedFields.some(m => m.source === key))
-      });
+      res.json(this.buildMappingResponse(request));
     } catch (error) {
       this.logError(error as Error);
       res.status(500).json({
@@ -71,7 +104,7 @@ export class FieldMappingService extends BaseMCPServer {
   }
 
   private mapFields(
-    formFields: Array<{name: string; type: string; description: string}>,
+    formFields: FieldData[],
     donorData: Record<string, any>,
     confidenceThreshold: number
   ): MappingResult[] {
@@ -99,7 +132,7 @@ export class FieldMappingService extends BaseMCPServer {
     // Process each form field
     for (const formField of formFields) {
       const fieldName = formField.name;
-      const fieldDesc = formField.description.toLowerCase();
+      const descriptionWords = this.toWords(formField.description || '');
       const lcFieldName = fieldName.toLowerCase();
 
       // Try direct mapping first
@@ -157,10 +190,42 @@ export class FieldMappingService extends BaseMCPServer {
 
       if (mapped) continue;
 
+      // Match the printed label when the name is opaque, taking the mapping
+      // that covers most of it. Checkbox captions describe an answer, not a
+      // value to copy
+      const labels = this.getLabelWords(formField);
+      const isChoice = formField.type === 'checkbox' || formField.type === 'radio';
+
+      if (labels.length > 0 && !isChoice) {
+        let best: { donorKey: string; coverage: number } | undefined;
+
+        for (const [donorKey, formVariations] of Object.entries(commonFieldMappings)) {
+          if (donorData[donorKey] === undefined) continue;
+
+          const coverage = Math.max(...[donorKey, ...formVariations].map(term => this.labelCoverage(labels, term)));
+          if (coverage > 0.5 && (!best || coverage > best.coverage)) {
+            best = { donorKey, coverage };
+          }
+        }
+
+        if (best) {
+          results.push({
+            fieldName,
+            value: donorData[best.donorKey],
+            confidence: 0.8,
+            source: best.donorKey
+          });
+          continue;
+        }
+      }
+
       // Try fuzzy matching based on descriptions
       for (const [donorKey, value] of Object.entries(donorData)) {
-        // Check if donor key appears in field description
-        if (fieldDesc.includes(donorKey.toLowerCase())) {
+        // Text values are never copied into checkboxes or radio buttons
+        if (isChoice && typeof value !== 'boolean') continue;
+
+        // Check if donor key makes up most of the field description or printed label
+        if (this.labelCoverage([descriptionWords, ...labels], donorKey) > 0.5) {
           results.push({
             fieldName,
             value,
@@ -193,6 +258,55 @@ export class FieldMappingService extends BaseMCPServer {
     return results.filter(result => result.confidence >= confidenceThreshold);
   }
 
+  /**
+   * The words of a field's printed labels, e.g. "Date of birth (if known):"
+   * becomes [date, birth, known]
+   */
+  private getLabelWords(formField: FieldData): string[][] {
+    const clues = formField.context_clues;
+
+    if (!clues) {
+      return [];
+    }
+
+    // Section headings are shared by many fields, so only labels are matched
+    const parts = Array.isArray(clues) ? clues : [clues.label];
+
+    return parts
+      .filter((part): part is string => typeof part === 'string')
+      .map(part => this.toWords(part))
+      .filter(words => words.length > 0);
+  }
+
+  /**
+   * Share of a label's words matched by a donor key or field name variation,
+   * e.g. a third for "state" on "State Bar No.", or 0 when any word of the term
+   * is missing from the label. The best of the field's labels counts.
+   */
+  private labelCoverage(labels: string[][], term: string): number {
+    const termWords = this.toWords(term);
+
+    if (termWords.length === 0) {
+      return 0;
+    }
+
+    return Math.max(0, ...labels.map(words => termWords.every(word => words.includes(word))
+      ? words.filter(word => termWords.includes(word)).length / words.length
+      : 0));
+  }
+
+  /**
+   * Lowercase words of a label, key or variation without filler words, with
+   * camelCase and snake_case split, e.g. dateOfBirth becomes [date, birth]
+   */
+  private toWords(text: string): string[] {
+    return text
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word && !FILLER_WORDS.has(word));
+  }
+
   private statusHandler(_req: Request, res: Response): void {
     res.json({
       status: 'healthy',
@@ -0,0 +1,112 @@
+export type JobPriority = 'high' | 'normal' | 'low';
+
+export type JobRunner = (signal: AbortSignal) => Promise<void>;
+
+interface QueuedJob {
+  id: string;
+  priority: JobPriority;
+  sequence: number;
+  run: JobRunner;
+  controller: AbortController;
+  // Resolves once a started job has finished, however it ended
+  settled?: Promise<void>;
+}
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * Runs workflows with a bounded number of workers. Waiting jobs start by
+ * priority, then in submission order; every job gets an AbortSignal so it
+ * can be cancelled while queued or running.
+ */
+export class JobQueue {
+  private concurrency: number;
+  private waiting: QueuedJob[];
+  private running: Map<string, QueuedJob>;
+  private sequence: number;
+
+  constructor(concurrency: number) {
+    this.concurrency = Math.max(1, concurrency);
+    this.waiting = [];
+    this.running = new Map();
+    this.sequence = 0;
+  }
+
+  /**
+   * Add a job and return its queue position, 0 when it started right away
+   */
+  public enqueue(id: string, run: JobRunner, priority: JobPriority = 'normal'): number {
+    if (this.has(id)) {
+      throw new Error(`Job already queued: ${id}`);
+    }
+
+    this.waiting.push({ id, priority, sequence: this.sequence++, run, controller: new AbortController() });
+    this.waiting.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.sequence - b.sequence);
+    this.drain();
+
+    return this.getPosition(id) ?? 0;
+  }
+
+  /**
+   * Remove a waiting job or abort a running one. Returns where the job was,
+   * or undefined if the queue does not know it.
+   */
+  public cancel(id: string, reason: string = 'Cancelled'): 'queued' | 'running' | undefined {
+    const index = this.waiting.findIndex(job => job.id === id);
+
+    if (index >= 0) {
+      this.waiting.splice(index, 1);
+      return 'queued';
+    }
+
+    const job = this.running.get(id);
+    if (job) {
+      job.controller.abort(new Error(reason));
+      return 'running';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 1-based position among waiting jobs, undefined once started
+   */
+  public getPosition(id: string): number | undefined {
+    const index = this.waiting.findIndex(job => job.id === id);
+    return index >= 0 ? index + 1 : undefined;
+  }
+
+  /**
+   * Resolves once a running job has finished, straight away for jobs that
+   * are not running
+   */
+  public async whenSettled(id: string): Promise<void> {
+    await this.running.get(id)?.settled;
+  }
+
+  public has(id: string): boolean {
+    return this.running.has(id) || this.waiting.some(job => job.id === id);
+  }
+
+  public getStats(): { concurrency: number; running: number; queued: number } {
+    return {
+      concurrency: this.concurrency,
+      running: this.running.size,
+      queued: this.waiting.length
+    };
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      this.running.set(job.id, job);
+
+      job.settled = job.run(job.controller.signal)
+        .catch(error => console.error(`[JobQueue] Job ${job.id} failed:`, error))
+        .finally(() => {
+          this.running.delete(job.id);
+          this.drain();
+        });
+    }
+  }
+}
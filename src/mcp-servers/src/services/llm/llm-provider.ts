@@ -0,0 +1,65 @@
+/**
+ * A document sent along with a prompt: a PDF, an image or plain text
+ */
+export interface LLMDocument {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  // Versioned name of the prompt, e.g. extract-fields/2
+  task?: string;
+  // Structured data the prompt was written from, e.g. the fields to
+  // annotate. Lets providers that do not read prompts answer them.
+  context?: Record<string, any>;
+  // The document the prompt is about; needs a provider with vision
+  document?: LLMDocument;
+  // Ask for a single JSON object. Providers without a JSON mode rely on the
+  // prompt asking for one.
+  json?: boolean;
+  // model, max_tokens and provider specific settings
+  options?: Record<string, any>;
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  provider: string;
+  model: string;
+  text: string;
+}
+
+export interface LLMCapabilities {
+  // Accepts documents and images with the prompt
+  vision: boolean;
+  // Can be made to answer with JSON only
+  jsonMode: boolean;
+  // Document types it reads, e.g. application/pdf or image/*
+  documentTypes: string[];
+}
+
+/**
+ * A language model API the analysis servers can send prompts to. Servers
+ * pick one by name from the LLMProviderRegistry.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly capabilities: LLMCapabilities;
+
+  // Whether the provider has the credentials it needs
+  isConfigured(): boolean;
+
+  // The model a request with these options is answered by
+  modelFor(options?: Record<string, any>): string;
+
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Whether a provider reads documents of this type
+ */
+export function acceptsDocument(provider: LLMProvider, mimeType: string): boolean {
+  return provider.capabilities.vision && provider.capabilities.documentTypes.some(type =>
+    type.endsWith('/*') ? mimeType.startsWith(type.slice(0, -1)) : type === mimeType
+  );
+}
@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import ServerConfig from '../../config/server.config';
+import { NativeFieldInventory } from '../../servers/ai-analysis/native-field-inventory';
+import { loadPdfDocument } from '../pdf-reader';
+import { LLMProvider, LLMRequest, LLMResponse } from './llm-provider';
+
+const LOCAL_MODEL = 'local';
+
+/**
+ * Answers prompts offline, without a model, so the pipeline runs with no
+ * network or API keys. A recorded answer is used when the fixtures
+ * directory has one for the task and document, at
+ * `<task>/<sha256 of the document>.json`; otherwise the answer is worked
+ * out with deterministic heuristics:
+ * - extract-fields lists the PDF's AcroForm fields
+ * - annotate-fields describes the given fields from their names
+ * - extract-document and extract-target-fields read `Label: value` lines
+ *   from text and PDF documents
+ */
+export class LocalProvider implements LLMProvider {
+  public readonly name = 'local';
+  public readonly capabilities = {
+    vision: true,
+    jsonMode: true,
+    documentTypes: ['application/pdf', 'text/plain']
+  };
+
+  private fixturesDir: string;
+
+  constructor(fixturesDir: string = ServerConfig.llmFixturesDir) {
+    this.fixturesDir = fixturesDir;
+  }
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public modelFor(): string {
+    return LOCAL_MODEL;
+  }
+
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    request.signal?.throwIfAborted();
+
+    // Prompt versions share their recorded answers
+    const task = (request.task || '').split('/')[0];
+    const hash = crypto.createHash('sha256').update(request.document?.data ?? request.prompt).digest('hex');
+    const fixturePath = path.join(this.fixturesDir, task, `${hash}.json`);
+
+    if (task && fs.existsSync(fixturePath)) {
+      console.log(`[LLM] Answering ${task} from fixture ${fixturePath}`);
+      return { provider: this.name, model: LOCAL_MODEL, text: fs.readFileSync(fixturePath, 'utf8') };
+    }
+
+    return { provider: this.name, model: LOCAL_MODEL, text: JSON.stringify(await this.answer(task, request)) };
+  }
+
+  private async answer(task: string, request: LLMRequest): Promise<any> {
+    switch (task) {
+      case 'extract-fields':
+        if (request.document?.mimeType !== 'application/pdf') {
+          throw new Error('The local provider reads form fields from PDFs only');
+        }
+        return { fields: await readFormFields(request.document.data) };
+
+      case 'annotate-fields':
+        return { fields: (request.context?.fields || []).map(annotateField) };
+
+      case 'extract-document':
+      case 'extract-target-fields': {
+        const data = parseLabelledValues(await documentText(request));
+        const targetFields: string[] | undefined = request.context?.targetFields;
+
+        return targetFields && targetFields.length > 0
+          ? Object.fromEntries(targetFields.map(field => [field, data[field] ?? data[camelCase(field)] ?? null]))
+          : data;
+      }
+
+      default:
+        throw new Error(`The local provider has no fixture or heuristic for ${task || 'this prompt'}`);
+    }
+  }
+}
+
+/**
+ * The AcroForm fields of a PDF, as the native inventory reads them, in the
+ * shape a model lists them
+ */
+async function readFormFields(pdf: Buffer): Promise<Record<string, any>[]> {
+  const fields = await new NativeFieldInventory().extract(pdf);
+
+  return fields.map(field => ({
+    name: field.name,
+    type: field.type,
+    description: field.description || humanize(field.name),
+    ...(field.location && { location: { page: field.location.page } })
+  }));
+}
+
+/**
+ * Describe a field from its tooltip or name, guessing the kind of value
+ * from the words in them
+ */
+function annotateField(field: Record<string, any>): Record<string, any> {
+  const description = field.tooltip || field.context?.label || humanize(field.name);
+  const words = `${field.name} ${description}`.toLowerCase();
+
+  const dataType = field.type === 'checkbox' || field.type === 'radio' ? 'boolean'
+    : field.type === 'signature' || words.includes('signature') ? 'signature'
+      : /\b(date|dob|birth)/.test(words) ? 'date'
+        : /phone|telephone|fax/.test(words) ? 'phone'
+          : /e-?mail/.test(words) ? 'email'
+            : /address|street|city|zip/.test(words) ? 'address'
+              : /\bname\b/.test(words) ? 'name'
+                : 'text';
+
+  return {
+    name: field.name,
+    description,
+    dataType,
+    ...(field.context?.section && { group: field.context.section })
+  };
+}
+
+async function documentText(request: LLMRequest): Promise<string> {
+  const document = request.document;
+
+  if (!document) {
+    return '';
+  }
+
+  if (document.mimeType === 'text/plain') {
+    return document.data.toString('utf8');
+  }
+
+  const doc = await loadPdfDocument(document.data);
+
+  try {
+    const lines: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const content = await page.getTextContent();
+      lines.push(content.items.map((item: any) => `${item.str}${item.hasEOL ? '\n' : ''}`).join(''));
+    }
+
+    return lines.join('\n');
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/**
+ * Read `Label: value` lines into camelCase keys. A label without a value
+ * starts a section whose name prefixes the labels under it, e.g.
+ * "Protected Person Information:" followed by "Name: Emma" gives
+ * protectedPersonName. Repeated labels are numbered from 2.
+ */
+function parseLabelledValues(text: string): Record<string, string> {
+  const data: Record<string, string> = {};
+  let section = '';
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.trim().match(/^([A-Za-z][^:]{0,60}):\s*(.*)$/);
+
+    if (!match) {
+      continue;
+    }
+
+    const [, label, value] = match;
+
+    if (!value) {
+      section = label.replace(/\binformation\b/i, '');
+      continue;
+    }
+
+    const key = camelCase(`${section} ${label}`);
+    let uniqueKey = key;
+
+    for (let count = 2; data[uniqueKey] !== undefined; count++) {
+      uniqueKey = `${key}${count}`;
+    }
+
+    data[uniqueKey] = value.trim();
+  }
+
+  return data;
+}
+
+function camelCase(text: string): string {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((word, index) => index === 0 ? word : word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+function humanize(name: string): string {
+  const last = name.split('.').pop() || name;
+  return last.replace(/\[\d+\]/g, '').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim();
+}
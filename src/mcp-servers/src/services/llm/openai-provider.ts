@@ -0,0 +1,93 @@
+import axios from 'axios';
+import { LLMDocument, LLMProvider, LLMRequest, LLMResponse } from './llm-provider';
+
+const OPENAI_DEFAULT_MODEL = 'gpt-4o';
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * OpenAI chat completions. PDFs are attached as file inputs and images as
+ * image URLs, both inlined as data URLs; `json` turns on the JSON response
+ * format.
+ */
+export class OpenAIProvider implements LLMProvider {
+  public readonly name = 'openai';
+  public readonly capabilities = {
+    vision: true,
+    jsonMode: true,
+    documentTypes: ['application/pdf', 'image/*']
+  };
+
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string = process.env.OPENAI_API_KEY || '', baseUrl: string = 'https://api.openai.com/v1') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+  }
+
+  public isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  public modelFor(options?: Record<string, any>): string {
+    return options?.model || OPENAI_DEFAULT_MODEL;
+  }
+
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    const model = this.modelFor(request.options);
+
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        {
+          model,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: request.prompt },
+                ...(request.document ? [this.documentPart(request.document)] : [])
+              ]
+            }
+          ],
+          ...(request.json && { response_format: { type: 'json_object' } }),
+          max_tokens: request.options?.max_tokens || DEFAULT_MAX_TOKENS
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          signal: request.signal
+        }
+      );
+
+      if (response.data && response.data.choices && response.data.choices.length > 0) {
+        return { provider: this.name, model, text: response.data.choices[0].message.content };
+      }
+
+      throw new Error('Invalid API response format from OpenAI');
+    } catch (error) {
+      console.error('[LLM] OpenAI API error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Content part for a document: PDFs go in as files, which the model reads
+   * as text and page images, anything else as an image
+   */
+  private documentPart(document: LLMDocument): Record<string, any> {
+    const dataUrl = `data:${document.mimeType};base64,${document.data.toString('base64')}`;
+
+    if (document.mimeType === 'application/pdf') {
+      return { type: 'file', file: { filename: 'document.pdf', file_data: dataUrl } };
+    }
+
+    return { type: 'image_url', image_url: { url: dataUrl } };
+  }
+}
@@ -0,0 +1,67 @@
+import axios from 'axios';
+import { LLMProvider, LLMRequest, LLMResponse } from './llm-provider';
+
+const PERPLEXITY_MODEL = 'sonar-medium-online';
+
+/**
+ * Perplexity Sonar. Documents are sent with the query; there is no JSON
+ * mode, so prompts have to ask for JSON.
+ */
+export class PerplexityProvider implements LLMProvider {
+  public readonly name = 'perplexity';
+  public readonly capabilities = {
+    vision: true,
+    jsonMode: false,
+    documentTypes: ['application/pdf', 'image/*']
+  };
+
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string = process.env.PERPLEXITY_API_KEY || '', baseUrl: string = 'https://api.perplexity.ai') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+  }
+
+  public isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  public modelFor(): string {
+    return PERPLEXITY_MODEL;
+  }
+
+  public async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.apiKey) {
+      throw new Error('Perplexity API key not configured');
+    }
+
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/sonar/api/v1/query`,
+        {
+          model: PERPLEXITY_MODEL,
+          ...(request.document && { document: request.document.data.toString('base64') }),
+          query: request.prompt,
+          override_settings: request.options || {}
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          signal: request.signal
+        }
+      );
+
+      if (response.data && response.data.answer) {
+        return { provider: this.name, model: PERPLEXITY_MODEL, text: response.data.answer };
+      }
+
+      throw new Error('Invalid API response format from Perplexity');
+    } catch (error) {
+      console.error('[LLM] Perplexity API error:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { LLMProvider } from './llm-provider';
+import { PerplexityProvider } from './perplexity-provider';
+import { OpenAIProvider } from './openai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { LocalProvider } from './local-provider';
+
+/**
+ * The LLM providers the analysis servers can be asked to use, by name
+ */
+export class LLMProviderRegistry {
+  private providers: Map<string, LLMProvider>;
+
+  constructor(providers: LLMProvider[] = [
+    new PerplexityProvider(),
+    new OpenAIProvider(),
+    new AnthropicProvider(),
+    new LocalProvider()
+  ]) {
+    this.providers = new Map();
+    providers.forEach(provider => this.register(provider));
+  }
+
+  public register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Get a provider by name
+   */
+  public get(name: string): LLMProvider {
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw new Error(`Unknown LLM provider: ${name}`);
+    }
+
+    return provider;
+  }
+
+  public has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  public names(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Why the `provider` and `providers` of a request cannot be used, if they
+   * name providers that are not registered. `others` are further names the
+   * caller accepts, like the AI Analysis server's 'native'.
+   */
+  public checkRequested(provider: unknown, providers: unknown, others: string[] = []): string | undefined {
+    if (providers !== undefined && !Array.isArray(providers)) {
+      return 'providers must be a list of provider names';
+    }
+
+    const known = [...this.names(), ...others];
+    const unknown = [...(provider !== undefined ? [provider] : []), ...(providers as unknown[] || [])]
+      .filter(name => typeof name !== 'string' || !known.includes(name));
+
+    if (unknown.length > 0) {
+      return `Unknown LLM provider: ${unknown.map(name => JSON.stringify(name)).join(', ')}; use one of: ${known.join(', ')}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Whether each provider is configured, for status endpoints
+   */
+  public status(): Record<string, boolean> {
+    return Object.fromEntries(this.list().map(provider => [provider.name, provider.isConfigured()]));
+  }
+
+  public list(): LLMProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
+
+export const llmProviders = new LLMProviderRegistry();
+
+export default llmProviders;
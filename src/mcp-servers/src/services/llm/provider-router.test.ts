@@ -0,0 +1,270 @@
+import { LLMProvider } from './llm-provider';
+import { LLMProviderRegistry } from './provider-registry';
+import { LLMProviderRouter, ProviderChainError, RouterConfig } from './provider-router';
+import { LLMOutputError } from './structured-output';
+
+const BREAKER_COOLDOWN = 100;
+
+function provider(name: string, options: { configured?: boolean; documentTypes?: string[] } = {}): LLMProvider {
+  return {
+    name,
+    capabilities: { vision: !!options.documentTypes, jsonMode: true, documentTypes: options.documentTypes || [] },
+    isConfigured: () => options.configured ?? true,
+    modelFor: () => `${name}-model`,
+    complete: async () => ({ provider: name, model: `${name}-model`, text: '' })
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * A call answering with the provider's name, failing for the given providers
+ */
+function failingFor(...failing: string[]) {
+  return jest.fn(async (name: string, _signal: AbortSignal) => {
+    if (failing.includes(name)) {
+      throw new Error(`${name} is down`);
+    }
+    return `answer from ${name}`;
+  });
+}
+
+describe('LLMProviderRouter', () => {
+  const registry = new LLMProviderRegistry([
+    provider('anthropic', { documentTypes: ['application/pdf', 'image/*'] }),
+    provider('openai', { documentTypes: ['image/*'] }),
+    provider('perplexity'),
+    provider('unconfigured', { configured: false })
+  ]);
+  const config: RouterConfig = {
+    chains: { 'extract-fields': ['anthropic', 'openai'], 'empty': [] },
+    defaultProvider: 'perplexity',
+    timeout: 1000,
+    providerTimeouts: { openai: 30 },
+    breakerThreshold: 2,
+    breakerCooldown: BREAKER_COOLDOWN
+  };
+  let router: LLMProviderRouter;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    router = new LLMProviderRouter(registry, config);
+  });
+
+  describe('chainFor', () => {
+    it('prefers the providers a request asked for', () => {
+      expect(router.chainFor('extract-fields', 'perplexity')).toEqual(['perplexity']);
+      expect(router.chainFor('extract-fields', ['openai', 'anthropic'])).toEqual(['openai', 'anthropic']);
+    });
+
+    it('falls back to the task chain, then the default provider', () => {
+      expect(router.chainFor('extract-fields')).toEqual(['anthropic', 'openai']);
+      expect(router.chainFor('extract-fields', [])).toEqual(['anthropic', 'openai']);
+      expect(router.chainFor('empty')).toEqual(['perplexity']);
+      expect(router.chainFor('summarize')).toEqual(['perplexity']);
+    });
+  });
+
+  describe('fallback', () => {
+    it('returns the first provider that answers', async () => {
+      const call = failingFor();
+
+      const routed = await router.run(['anthropic', 'openai'], call);
+
+      expect(routed).toMatchObject({
+        provider: 'anthropic',
+        result: 'answer from anthropic',
+        attempts: [{ provider: 'anthropic', status: 'succeeded' }]
+      });
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('tries the next provider when one fails', async () => {
+      const routed = await router.run(['anthropic', 'openai', 'perplexity'], failingFor('anthropic'));
+
+      expect(routed.provider).toBe('openai');
+      expect(routed.attempts).toEqual([
+        expect.objectContaining({ provider: 'anthropic', status: 'failed', reason: 'anthropic is down' }),
+        expect.objectContaining({ provider: 'openai', status: 'succeeded' })
+      ]);
+    });
+
+    it('records the issues of invalid answers', async () => {
+      const issues = [{ path: '/fields', message: 'must be array' }];
+      const call = jest.fn(async (name: string) => {
+        if (name === 'anthropic') {
+          throw new LLMOutputError('anthropic', 'extract-fields/2', issues, 3, '{}');
+        }
+        return name;
+      });
+
+      const routed = await router.run(['anthropic', 'openai'], call);
+
+      expect(routed.attempts[0]).toMatchObject({ provider: 'anthropic', status: 'failed', issues });
+    });
+
+    it('skips providers that are not configured or cannot read the document', async () => {
+      const call = failingFor();
+
+      const routed = await router.run(['unconfigured', 'perplexity', 'openai', 'anthropic'], call, { mimeType: 'application/pdf' });
+
+      expect(routed.provider).toBe('anthropic');
+      expect(routed.attempts.map(attempt => [attempt.provider, attempt.status, attempt.reason])).toEqual([
+        ['unconfigured', 'skipped', 'not configured'],
+        ['perplexity', 'skipped', 'cannot read application/pdf documents'],
+        ['openai', 'skipped', 'cannot read application/pdf documents'],
+        ['anthropic', 'succeeded', undefined]
+      ]);
+      expect(call.mock.calls.map(([name]) => name)).toEqual(['anthropic']);
+    });
+
+    it('lets any provider take plain text', async () => {
+      const routed = await router.run(['perplexity'], failingFor(), { mimeType: 'text/plain' });
+
+      expect(routed.provider).toBe('perplexity');
+    });
+
+    it('skips providers the caller rules out', async () => {
+      const routed = await router.run(['anthropic', 'openai'], failingFor(), {
+        skip: name => name === 'anthropic' ? 'no API key for this tenant' : undefined
+      });
+
+      expect(routed.provider).toBe('openai');
+      expect(routed.attempts[0]).toEqual({ provider: 'anthropic', status: 'skipped', reason: 'no API key for this tenant' });
+    });
+
+    it('passes names outside the registry to the caller', async () => {
+      const routed = await router.run(['native'], failingFor());
+
+      expect(routed).toMatchObject({ provider: 'native', result: 'answer from native' });
+    });
+
+    it('keeps the first rejected answer when no provider does better', async () => {
+      const reject = (result: string) => result.includes('perplexity') ? undefined : 'no fields found';
+
+      const better = await router.run(['anthropic', 'perplexity'], failingFor(), { reject });
+      expect(better.provider).toBe('perplexity');
+      expect(better.attempts.map(attempt => attempt.status)).toEqual(['rejected', 'succeeded']);
+
+      const fallback = await router.run(['anthropic', 'openai'], failingFor(), { reject });
+      expect(fallback).toMatchObject({ provider: 'anthropic', result: 'answer from anthropic' });
+      expect(fallback.attempts.map(attempt => attempt.status)).toEqual(['rejected', 'rejected']);
+    });
+
+    it('rethrows the error of a single provider chain', async () => {
+      await expect(router.run(['anthropic'], failingFor('anthropic'))).rejects.toThrow('anthropic is down');
+    });
+
+    it('raises a ProviderChainError with every attempt when the chain is exhausted', async () => {
+      const error = await router.run(['unconfigured', 'anthropic', 'openai'], failingFor('anthropic', 'openai'))
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(ProviderChainError);
+      expect(error.message).toBe(
+        'No provider could handle the request (unconfigured: not configured; anthropic: anthropic is down; openai: openai is down)'
+      );
+      expect(error.attempts.map((attempt: { status: string }) => attempt.status)).toEqual(['skipped', 'failed', 'failed']);
+    });
+  });
+
+  describe('timeouts', () => {
+    it('cuts off a provider after its own timeout and tries the next', async () => {
+      let openaiSignal: AbortSignal | undefined;
+      const call = jest.fn(async (name: string, signal: AbortSignal) => {
+        if (name === 'openai') {
+          openaiSignal = signal;
+          // Never answers and ignores the signal
+          return new Promise<string>(() => undefined);
+        }
+        return name;
+      });
+
+      const routed = await router.run(['openai', 'perplexity'], call);
+
+      expect(routed.provider).toBe('perplexity');
+      expect(routed.attempts[0]).toMatchObject({ provider: 'openai', status: 'failed', reason: 'openai timed out after 30ms' });
+      expect(openaiSignal?.aborted).toBe(true);
+    });
+
+    it('uses the default timeout for other providers', async () => {
+      const fast = new LLMProviderRouter(registry, { ...config, timeout: 20 });
+
+      await expect(fast.run(['perplexity'], () => new Promise<string>(() => undefined)))
+        .rejects.toThrow('perplexity timed out after 20ms');
+    });
+
+    it('stops when the caller aborts, without blaming the provider', async () => {
+      const controller = new AbortController();
+      const call = jest.fn(async () => {
+        controller.abort(new Error('client went away'));
+        return new Promise<string>(() => undefined);
+      });
+
+      await expect(router.run(['anthropic', 'openai'], call, { signal: controller.signal }))
+        .rejects.toThrow('client went away');
+      expect(call).toHaveBeenCalledTimes(1);
+      expect(router.status()).toEqual({});
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('opens after breakerThreshold failures in a row', async () => {
+      await router.run(['anthropic', 'perplexity'], failingFor('anthropic'));
+      expect(router.status().anthropic).toEqual({ state: 'closed', failures: 1, lastError: 'anthropic is down' });
+
+      await router.run(['anthropic', 'perplexity'], failingFor('anthropic'));
+      expect(router.status().anthropic).toMatchObject({ state: 'open', failures: 2, openUntil: expect.any(String) });
+
+      const call = failingFor();
+      const routed = await router.run(['anthropic', 'perplexity'], call);
+
+      expect(routed.provider).toBe('perplexity');
+      expect(routed.attempts[0]).toEqual({ provider: 'anthropic', status: 'skipped', reason: 'circuit open after 2 failures' });
+      expect(call.mock.calls.map(([name]) => name)).toEqual(['perplexity']);
+    });
+
+    it('closes again when a provider answers', async () => {
+      await router.run(['anthropic', 'perplexity'], failingFor('anthropic'));
+      await router.run(['anthropic', 'perplexity'], failingFor());
+
+      expect(router.status()).toEqual({});
+    });
+
+    it('tries the provider again after the cooldown', async () => {
+      await router.run(['anthropic', 'perplexity'], failingFor('anthropic'));
+      await router.run(['anthropic', 'perplexity'], failingFor('anthropic'));
+      await sleep(BREAKER_COOLDOWN + 20);
+
+      expect(router.status().anthropic.state).toBe('half-open');
+
+      // A failed trial opens the circuit again straight away
+      await router.run(['anthropic', 'perplexity'], failingFor('anthropic'));
+      expect(router.status().anthropic).toMatchObject({ state: 'open', failures: 3 });
+
+      await sleep(BREAKER_COOLDOWN + 20);
+      const routed = await router.run(['anthropic', 'perplexity'], failingFor());
+
+      expect(routed.provider).toBe('anthropic');
+      expect(router.status()).toEqual({});
+    });
+
+    it('keeps a circuit per provider', async () => {
+      await router.run(['anthropic', 'perplexity'], failingFor('anthropic'));
+      await router.run(['anthropic', 'perplexity'], failingFor('anthropic'));
+
+      const routed = await router.run(['openai'], failingFor());
+
+      expect(routed.provider).toBe('openai');
+      expect(Object.keys(router.status())).toEqual(['anthropic']);
+    });
+  });
+});
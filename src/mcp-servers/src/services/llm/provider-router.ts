@@ -0,0 +1,279 @@
+import ServerConfig from '../../config/server.config';
+import { acceptsDocument } from './llm-provider';
+import { LLMProviderRegistry, llmProviders } from './provider-registry';
+import { LLMOutputError, OutputIssue } from './structured-output';
+
+export interface RouteAttempt {
+  provider: string;
+  // skipped: not tried, by a routing rule or an open circuit
+  // rejected: answered, but the caller could not use the answer
+  status: 'succeeded' | 'failed' | 'skipped' | 'rejected';
+  reason?: string;
+  // What was wrong with the provider's answers, when that made it fail
+  issues?: OutputIssue[];
+  durationMs?: number;
+}
+
+/**
+ * Raised when no provider of a chain could answer
+ */
+export class ProviderChainError extends Error {
+  public readonly attempts: RouteAttempt[];
+
+  constructor(message: string, attempts: RouteAttempt[]) {
+    super(message);
+    this.name = 'ProviderChainError';
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * The structured details of an LLM failure, for error responses
+ */
+export function llmErrorDetails(error: unknown): Record<string, any> {
+  if (error instanceof LLMOutputError) {
+    return { provider: error.provider, task: error.task, attempts: error.attempts, issues: error.issues };
+  }
+
+  if (error instanceof ProviderChainError) {
+    return { attempts: error.attempts };
+  }
+
+  return {};
+}
+
+export interface RoutedResult<T> {
+  provider: string;
+  result: T;
+  attempts: RouteAttempt[];
+}
+
+export interface RouteOptions<T> {
+  // Type of the document sent with the prompts; providers that cannot read
+  // it are skipped. Plain text passes, as it can go into the prompt.
+  mimeType?: string;
+  // Why the caller cannot use a provider for this request, if it cannot
+  skip?: (provider: string) => string | undefined;
+  // Why an answer is not usable, e.g. no fields found; the next provider is
+  // tried and the answer kept in case no other provider does better
+  reject?: (result: T) => string | undefined;
+  signal?: AbortSignal;
+}
+
+export interface CircuitStatus {
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  openUntil?: string;
+  lastError?: string;
+}
+
+interface Circuit {
+  failures: number;
+  openUntil: number;
+  lastError?: string;
+}
+
+export interface RouterConfig {
+  chains: Record<string, string[]>;
+  defaultProvider: string;
+  timeout: number;
+  providerTimeouts: Record<string, number>;
+  breakerThreshold: number;
+  breakerCooldown: number;
+}
+
+/**
+ * Tries the providers of a task's chain in order until one answers. Each
+ * call gets the provider's timeout, providers that cannot take the
+ * document are skipped, and a provider failing breakerThreshold times in a
+ * row is left out for breakerCooldown ms before being tried again.
+ *
+ * Names outside the registry, like the AI Analysis server's 'native', are
+ * passed to the caller as they are and get the same timeouts and circuit.
+ */
+export class LLMProviderRouter {
+  private registry: LLMProviderRegistry;
+  private config: RouterConfig;
+  private circuits: Map<string, Circuit>;
+
+  constructor(registry: LLMProviderRegistry = llmProviders, config: RouterConfig = {
+    chains: ServerConfig.llmChains,
+    defaultProvider: ServerConfig.defaultLlmProvider,
+    timeout: ServerConfig.llmTimeout,
+    providerTimeouts: ServerConfig.llmProviderTimeouts,
+    breakerThreshold: ServerConfig.llmBreakerThreshold,
+    breakerCooldown: ServerConfig.llmBreakerCooldown
+  }) {
+    this.registry = registry;
+    this.config = config;
+    this.circuits = new Map();
+  }
+
+  /**
+   * The providers to try for a task: the ones a request asked for, else the
+   * task's configured chain, else the default provider
+   */
+  public chainFor(task: string, requested?: string | string[]): string[] {
+    const chain = Array.isArray(requested) ? requested : requested ? [requested] : [];
+
+    if (chain.length > 0) {
+      return chain;
+    }
+
+    const configured = this.config.chains[task];
+    return configured && configured.length > 0 ? configured : [this.config.defaultProvider];
+  }
+
+  public async run<T>(
+    chain: string[],
+    call: (provider: string, signal: AbortSignal) => Promise<T>,
+    options: RouteOptions<T> = {}
+  ): Promise<RoutedResult<T>> {
+    const attempts: RouteAttempt[] = [];
+    let rejected: RoutedResult<T> | undefined;
+    let lastError: Error | undefined;
+
+    for (const provider of chain) {
+      options.signal?.throwIfAborted();
+
+      const skipReason = options.skip?.(provider) || this.skipReason(provider, options.mimeType);
+
+      if (skipReason) {
+        attempts.push({ provider, status: 'skipped', reason: skipReason });
+        continue;
+      }
+
+      const startedAt = Date.now();
+
+      try {
+        const result = await this.callWithTimeout(provider, call, options.signal);
+        const durationMs = Date.now() - startedAt;
+        const rejectReason = options.reject?.(result);
+
+        this.recordSuccess(provider);
+
+        if (rejectReason) {
+          attempts.push({ provider, status: 'rejected', reason: rejectReason, durationMs });
+          rejected = rejected || { provider, result, attempts };
+          continue;
+        }
+
+        attempts.push({ provider, status: 'succeeded', durationMs });
+        return { provider, result, attempts };
+      } catch (error) {
+        // The caller giving up is not the provider's fault
+        options.signal?.throwIfAborted();
+
+        lastError = error as Error;
+        attempts.push({
+          provider,
+          status: 'failed',
+          reason: lastError.message,
+          ...(lastError instanceof LLMOutputError && { issues: lastError.issues }),
+          durationMs: Date.now() - startedAt
+        });
+
+        console.warn(`[LLM] ${provider} failed: ${lastError.message}`);
+        this.recordFailure(provider, lastError);
+      }
+    }
+
+    if (rejected) {
+      return rejected;
+    }
+
+    if (chain.length === 1 && lastError) {
+      throw lastError;
+    }
+
+    const tried = attempts.map(attempt => `${attempt.provider}: ${attempt.reason || attempt.status}`).join('; ');
+    throw new ProviderChainError(`No provider could handle the request (${tried || 'empty provider chain'})`, attempts);
+  }
+
+  /**
+   * Circuit state of every provider that has failed
+   */
+  public status(): Record<string, CircuitStatus> {
+    const now = Date.now();
+
+    return Object.fromEntries(Array.from(this.circuits.entries()).map(([provider, circuit]) => [provider, {
+      state: circuit.openUntil === 0 ? 'closed' : circuit.openUntil > now ? 'open' : 'half-open',
+      failures: circuit.failures,
+      ...(circuit.openUntil > now && { openUntil: new Date(circuit.openUntil).toISOString() }),
+      ...(circuit.lastError && { lastError: circuit.lastError })
+    }]));
+  }
+
+  private skipReason(provider: string, mimeType?: string): string | undefined {
+    const circuit = this.circuits.get(provider);
+
+    if (circuit && circuit.openUntil > Date.now()) {
+      return `circuit open after ${circuit.failures} failures`;
+    }
+
+    if (!this.registry.has(provider)) {
+      return undefined;
+    }
+
+    const llm = this.registry.get(provider);
+
+    if (!llm.isConfigured()) {
+      return 'not configured';
+    }
+
+    if (mimeType && mimeType !== 'text/plain' && !acceptsDocument(llm, mimeType)) {
+      return `cannot read ${mimeType} documents`;
+    }
+
+    return undefined;
+  }
+
+  private async callWithTimeout<T>(
+    provider: string,
+    call: (provider: string, signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const timeout = this.config.providerTimeouts[provider] ?? this.config.timeout;
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    const timer = setTimeout(() => controller.abort(new Error(`${provider} timed out after ${timeout}ms`)), timeout);
+
+    // Calls that do not watch the signal are still cut off. Listen before
+    // calling, so an abort while the call starts is not missed.
+    const aborted = new Promise<never>((_resolve, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason));
+    });
+
+    signal?.addEventListener('abort', abort);
+
+    try {
+      return await Promise.race([call(provider, controller.signal), aborted]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private recordSuccess(provider: string): void {
+    this.circuits.delete(provider);
+  }
+
+  private recordFailure(provider: string, error: Error): void {
+    const circuit = this.circuits.get(provider) || { failures: 0, openUntil: 0 };
+
+    circuit.failures++;
+    circuit.lastError = error.message;
+
+    // A failed trial after the cooldown opens the circuit again straight away
+    if (circuit.failures >= this.config.breakerThreshold) {
+      circuit.openUntil = Date.now() + this.config.breakerCooldown;
+      console.warn(`[LLM] Skipping ${provider} for ${this.config.breakerCooldown}ms after ${circuit.failures} failures`);
+    }
+
+    this.circuits.set(provider, circuit);
+  }
+}
+
+export const llmRouter = new LLMProviderRouter();
+
+export default llmRouter;
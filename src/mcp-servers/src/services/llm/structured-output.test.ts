@@ -0,0 +1,228 @@
+import { LLMProvider, LLMRequest } from './llm-provider';
+import { LLMOutputError, completeStructured, extractJson } from './structured-output';
+
+/**
+ * Provider answering with the given texts in turn and recording the prompts
+ */
+function scripted(...answers: string[]): LLMProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+
+  return {
+    name: 'scripted',
+    capabilities: { vision: false, jsonMode: true, documentTypes: [] },
+    prompts,
+    isConfigured: () => true,
+    modelFor: () => 'scripted-1',
+    complete: async (request: LLMRequest) => {
+      prompts.push(request.prompt);
+      const text = answers.shift();
+      if (text === undefined) {
+        throw new Error('No answer left');
+      }
+      return { provider: 'scripted', model: 'scripted-1', text };
+    }
+  };
+}
+
+const request: LLMRequest = { prompt: 'Extract the fields', task: 'extract-fields/2' };
+
+describe('extractJson', () => {
+  it('parses plain JSON', () => {
+    expect(extractJson('{"a": 1}')).toEqual({ ok: true, value: { a: 1 } });
+  });
+
+  it('finds JSON inside prose and code fences', () => {
+    expect(extractJson('Here you go:\n```json\n{"a": "}"}\n```\nAnything else?')).toEqual({ ok: true, value: { a: '}' } });
+    expect(extractJson('The list is [1, 2] and {"b": true}')).toEqual({ ok: true, value: [1, 2] });
+  });
+
+  it('skips brackets that do not start valid JSON', () => {
+    expect(extractJson('See {note} then {"a": 1}')).toEqual({ ok: true, value: { a: 1 } });
+  });
+
+  it('reports answers without JSON', () => {
+    expect(extractJson('I cannot read this document')).toEqual({ ok: false, error: 'answer does not contain valid JSON' });
+    expect(extractJson('  ')).toEqual({ ok: false, error: 'answer is empty' });
+  });
+});
+
+describe('completeStructured', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('coercion', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        married: { type: 'boolean' },
+        dependents: { type: 'integer' },
+        income: { type: 'number' },
+        aliases: { type: 'array', items: { type: 'string' } },
+        zip: { type: 'string' },
+        spouseIncome: { type: ['number', 'null'] },
+        country: { type: 'string', default: 'US' }
+      }
+    };
+
+    it('turns answer words and numeric strings into the schema types', async () => {
+      const { value, repairs } = await completeStructured(scripted(JSON.stringify({
+        married: 'Yes',
+        dependents: '2',
+        income: ' 1250.50 ',
+        aliases: 'J. Doe',
+        zip: 12345,
+        spouseIncome: ''
+      })), request, schema, 0);
+
+      expect(value).toEqual({
+        married: true,
+        dependents: 2,
+        income: 1250.5,
+        aliases: ['J. Doe'],
+        zip: '12345',
+        spouseIncome: null,
+        country: 'US'
+      });
+      expect(repairs).toBe(0);
+    });
+
+    it('reads checkbox words as false', async () => {
+      for (const word of ['no', 'unchecked', 'off', '']) {
+        const { value } = await completeStructured<Record<string, any>>(scripted(JSON.stringify({ married: word })), request, schema, 0);
+        expect(value.married).toBe(false);
+      }
+    });
+
+    it('wraps an array in the only array property of an object', async () => {
+      const fieldsSchema = {
+        type: 'object',
+        properties: {
+          fields: { type: 'array', items: { type: 'object', properties: { required: { type: 'boolean' } } } },
+          title: { type: 'string' }
+        },
+        required: ['fields']
+      };
+
+      const { value } = await completeStructured(scripted('[{"name": "dob", "required": "x"}]'), request, fieldsSchema, 0);
+
+      expect(value).toEqual({ fields: [{ name: 'dob', required: true }] });
+    });
+
+    it('coerces values matched by patternProperties and additionalProperties', async () => {
+      const mapSchema = {
+        type: 'object',
+        patternProperties: { '^count_': { type: 'integer' } },
+        additionalProperties: { type: 'boolean' }
+      };
+
+      const { value } = await completeStructured(scripted('{"count_pages": "3", "signed": "checked"}'), request, mapSchema, 0);
+
+      expect(value).toEqual({ count_pages: 3, signed: true });
+    });
+  });
+
+  describe('dates', () => {
+    const schema = {
+      type: 'object',
+      properties: { dob: { type: 'string', format: 'date' } },
+      required: ['dob']
+    };
+
+    it.each([
+      ['1985-03-03', '1985-03-03'],
+      ['3/3/1985', '1985-03-03'],
+      ['03/03/1985', '1985-03-03'],
+      ['March 3, 1985', '1985-03-03'],
+      ['Mar 3, 1985', '1985-03-03'],
+      ['Mar. 3,1985', '1985-03-03'],
+      [' 2000-02-29 ', '2000-02-29']
+    ])('reads %j as %s', async (dob, expected) => {
+      const { value } = await completeStructured<{ dob: string }>(scripted(JSON.stringify({ dob })), request, schema, 0);
+      expect(value.dob).toBe(expected);
+    });
+
+    it.each([
+      ['3-3-1985'],
+      ['03.03.1985'],
+      ['1985/03/03'],
+      ['March 1985'],
+      ['Mars 3, 1985'],
+      ['02/30/1985'],
+      ['1985-13-01'],
+      ['1900-02-29']
+    ])('rejects %j', async (dob) => {
+      await expect(completeStructured(scripted(JSON.stringify({ dob })), request, schema, 0))
+        .rejects.toMatchObject({ issues: [{ path: '/dob', message: 'must match format "date"' }] });
+    });
+  });
+
+  describe('repairs', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        fields: { type: 'array', items: { type: 'string' } },
+        status: { type: 'string', enum: ['complete', 'partial'] }
+      },
+      required: ['fields', 'status']
+    };
+
+    it('sends an invalid answer back with its problems', async () => {
+      const llm = scripted('{"fields": ["name"], "status": "done"}', '{"fields": ["name"], "status": "complete"}');
+
+      const { value, response, repairs } = await completeStructured(llm, request, schema, 2);
+
+      expect(value).toEqual({ fields: ['name'], status: 'complete' });
+      expect(response.text).toBe('{"fields": ["name"], "status": "complete"}');
+      expect(repairs).toBe(1);
+      expect(llm.prompts).toHaveLength(2);
+      expect(llm.prompts[0]).toBe('Extract the fields');
+      expect(llm.prompts[1]).toContain('Extract the fields');
+      expect(llm.prompts[1]).toContain('{"fields": ["name"], "status": "done"}');
+      expect(llm.prompts[1]).toContain('- /status: must be equal to one of the allowed values: complete, partial');
+    });
+
+    it('asks again when the answer holds no JSON', async () => {
+      const llm = scripted('Sorry, the scan is too blurry.', '{"fields": [], "status": "partial"}');
+
+      const { repairs } = await completeStructured(llm, request, schema, 1);
+
+      expect(repairs).toBe(1);
+      expect(llm.prompts[1]).toContain('- /: answer does not contain valid JSON');
+    });
+
+    it('gives up after the last repair with the issues of the last answer', async () => {
+      const llm = scripted('{"status": "complete"}', '{"fields": "name"}', '{"fields": ["name"]}');
+
+      const error = await completeStructured(llm, request, schema, 2).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(LLMOutputError);
+      expect(error).toMatchObject({
+        provider: 'scripted',
+        task: 'extract-fields/2',
+        attempts: 3,
+        issues: [{ path: '', message: "must have required property 'status'" }],
+        excerpt: '{"fields": ["name"]}'
+      });
+      expect(error.message).toBe(
+        "scripted answered extract-fields/2 with invalid output after 3 attempts: / must have required property 'status'"
+      );
+      expect(llm.prompts).toHaveLength(3);
+    });
+
+    it('stops repairing once the request is aborted', async () => {
+      const controller = new AbortController();
+      const llm = scripted('{}', '{"fields": [], "status": "partial"}');
+      controller.abort(new Error('client went away'));
+
+      await expect(completeStructured(llm, { ...request, signal: controller.signal }, schema, 2))
+        .rejects.toThrow('client went away');
+      expect(llm.prompts).toHaveLength(1);
+    });
+  });
+});
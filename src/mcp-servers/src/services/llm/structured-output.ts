@@ -0,0 +1,328 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import ServerConfig from '../../config/server.config';
+import { LLMProvider, LLMRequest, LLMResponse } from './llm-provider';
+
+/**
+ * A problem with a model's answer, at a JSON pointer into it
+ */
+export interface OutputIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when a model keeps answering with JSON that does not match the
+ * schema it was asked for, after every repair attempt
+ */
+export class LLMOutputError extends Error {
+  public readonly provider: string;
+  public readonly task?: string;
+  public readonly issues: OutputIssue[];
+  // Requests made, the first answer included
+  public readonly attempts: number;
+  // Start of the last answer
+  public readonly excerpt: string;
+
+  constructor(provider: string, task: string | undefined, issues: OutputIssue[], attempts: number, text: string) {
+    super(`${provider} answered ${task || 'the prompt'} with invalid output after ${attempts} attempts: ${formatIssues(issues)}`);
+    this.name = 'LLMOutputError';
+    this.provider = provider;
+    this.task = task;
+    this.issues = issues;
+    this.attempts = attempts;
+    this.excerpt = text.slice(0, 500);
+  }
+}
+
+export interface StructuredResponse<T> {
+  value: T;
+  response: LLMResponse;
+  // Answers that had to be re-requested
+  repairs: number;
+}
+
+// Only the date format is checked; strings that are no date go back for repair
+const ajv = new Ajv({ allErrors: true, strict: false, useDefaults: true, formats: { date: isIsoDate } });
+const validators = new WeakMap<object, ValidateFunction>();
+
+const TRUE_WORDS = ['true', 'yes', 'y', 'x', 'checked', 'on', '1'];
+const FALSE_WORDS = ['false', 'no', 'n', 'unchecked', 'off', '0', ''];
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+/**
+ * Send a prompt and return its answer parsed, coerced and validated against
+ * the schema. A malformed answer is sent back to the provider with the
+ * problems found, up to `maxRepairs` times (LLM_REPAIR_ATTEMPTS).
+ *
+ * Coercion follows the schema: strings such as "yes" or "checked" become
+ * booleans, numeric strings numbers, a lone value a one-item array, an
+ * array the only array property of an object, and strings with
+ * `format: "date"` ISO dates (YYYY-MM-DD) when they are written as
+ * MM/DD/YYYY or "Month D, YYYY". Other date strings fail validation.
+ * Properties with a `default` are filled in when missing.
+ */
+export async function completeStructured<T>(
+  llm: LLMProvider,
+  request: LLMRequest,
+  schema: Record<string, any>,
+  maxRepairs: number = ServerConfig.llmRepairAttempts
+): Promise<StructuredResponse<T>> {
+  const validate = validatorFor(schema);
+  let prompt = request.prompt;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await llm.complete({ ...request, prompt });
+    const parsed = extractJson(response.text);
+    let issues: OutputIssue[];
+
+    if (parsed.ok) {
+      const value = coerce(schema, parsed.value);
+
+      if (validate(value)) {
+        if (attempt > 0) {
+          console.log(`[LLM] ${llm.name} answered ${request.task || 'the prompt'} validly after ${attempt} repairs`);
+        }
+        return { value: value as T, response, repairs: attempt };
+      }
+
+      issues = toIssues(validate.errors || []);
+    } else {
+      issues = [{ path: '', message: parsed.error }];
+    }
+
+    console.warn(`[LLM] Invalid ${llm.name} answer to ${request.task || 'the prompt'}: ${formatIssues(issues)}`);
+
+    if (attempt >= maxRepairs) {
+      throw new LLMOutputError(llm.name, request.task, issues, attempt + 1, response.text);
+    }
+
+    request.signal?.throwIfAborted();
+    prompt = repairPrompt(request.prompt, response.text, issues);
+  }
+}
+
+/**
+ * The first JSON object or array in a model's answer, which may be wrapped
+ * in prose or a code fence. Brackets are matched, so text after the JSON
+ * is ignored.
+ */
+export function extractJson(text: string): { ok: true; value: any } | { ok: false; error: string } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    // Look for JSON inside the text
+  }
+
+  for (let start = text.search(/[[{]/); start !== -1; start = nextBracket(text, start + 1)) {
+    const end = matchingBracket(text, start);
+
+    if (end === -1) {
+      break;
+    }
+
+    try {
+      return { ok: true, value: JSON.parse(text.slice(start, end + 1)) };
+    } catch {
+      // Try the next bracket
+    }
+  }
+
+  return { ok: false, error: text.trim() ? 'answer does not contain valid JSON' : 'answer is empty' };
+}
+
+function nextBracket(text: string, from: number): number {
+  const index = text.slice(from).search(/[[{]/);
+  return index === -1 ? -1 : from + index;
+}
+
+function matchingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) {
+        return -1;
+      }
+      if (stack.length === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+function validatorFor(schema: Record<string, any>): ValidateFunction {
+  let validate = validators.get(schema);
+
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+
+  return validate;
+}
+
+function coerce(schema: Record<string, any> | undefined, value: any): any {
+  if (!schema || value === undefined) {
+    return value;
+  }
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+
+  if (value === null || types.length === 0) {
+    return typeof value === 'string' && schema.format === 'date' ? toIsoDate(value) : coerceChildren(schema, value);
+  }
+
+  const actual = Array.isArray(value) ? 'array' : typeof value;
+
+  if (types.includes(actual) || (types.includes('integer') && Number.isInteger(value))) {
+    return typeof value === 'string' && schema.format === 'date' ? toIsoDate(value) : coerceChildren(schema, value);
+  }
+
+  if (types.includes('array') && !Array.isArray(value)) {
+    return [coerce(schema.items, value)];
+  }
+
+  if (types.includes('object') && Array.isArray(value)) {
+    const arrayProperties = Object.entries(schema.properties || {})
+      .filter(([, property]: [string, any]) => property.type === 'array');
+
+    if (arrayProperties.length === 1) {
+      return coerceChildren(schema, { [arrayProperties[0][0]]: value });
+    }
+  }
+
+  if (typeof value === 'string') {
+    const word = value.trim().toLowerCase();
+
+    if (types.includes('boolean') && TRUE_WORDS.includes(word)) {
+      return true;
+    }
+    if (types.includes('boolean') && FALSE_WORDS.includes(word)) {
+      return false;
+    }
+    if ((types.includes('number') || types.includes('integer')) && word !== '' && !isNaN(Number(word))) {
+      return Number(word);
+    }
+    if (types.includes('null') && word === '') {
+      return null;
+    }
+  }
+
+  if ((typeof value === 'number' || typeof value === 'boolean') && types.includes('string')) {
+    return String(value);
+  }
+
+  return value;
+}
+
+function coerceChildren(schema: Record<string, any>, value: any): any {
+  if (Array.isArray(value)) {
+    return schema.items ? value.map(item => coerce(schema.items, item)) : value;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const patterns = Object.entries(schema.patternProperties || {})
+    .map(([pattern, property]) => [new RegExp(pattern, 'u'), property] as const);
+
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => {
+    const property = schema.properties?.[key]
+      ?? patterns.find(([pattern]) => pattern.test(key))?.[1]
+      ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+
+    return [key, coerce(property, child)];
+  }));
+}
+
+/**
+ * A date written as YYYY-MM-DD, MM/DD/YYYY or "Month D, YYYY" (e.g. "March
+ * 3, 1985" or "Mar 3, 1985") as YYYY-MM-DD. Anything else, including dates
+ * that do not exist, is left as it is for validation to report.
+ */
+function toIsoDate(value: string): string {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const spelled = text.match(/^([A-Za-z]+)\.? (\d{1,2}), ?(\d{4})$/);
+
+  if (iso) {
+    return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3])) ?? value;
+  }
+
+  if (us) {
+    return isoDate(Number(us[3]), Number(us[1]), Number(us[2])) ?? value;
+  }
+
+  if (spelled) {
+    const name = spelled[1].toLowerCase();
+    const month = MONTHS.findIndex(month => month === name || (name.length === 3 && month.startsWith(name))) + 1;
+
+    return (month > 0 && isoDate(Number(spelled[3]), month, Number(spelled[2]))) || value;
+  }
+
+  return value;
+}
+
+function isoDate(year: number, month: number, day: number): string | undefined {
+  // Day 0 of the next month is the last day of this one
+  if (month < 1 || month > 12 || day < 1 || day > new Date(Date.UTC(year, month, 0)).getUTCDate()) {
+    return undefined;
+  }
+
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function isIsoDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return !!match && isoDate(Number(match[1]), Number(match[2]), Number(match[3])) !== undefined;
+}
+
+function toIssues(errors: ErrorObject[]): OutputIssue[] {
+  return errors.map(error => ({
+    path: error.instancePath,
+    message: error.keyword === 'enum'
+      ? `${error.message}: ${(error.params as { allowedValues: any[] }).allowedValues.join(', ')}`
+      : error.message || error.keyword
+  }));
+}
+
+function formatIssues(issues: OutputIssue[]): string {
+  const shown = issues.slice(0, 5).map(issue => `${issue.path || '/'} ${issue.message}`);
+  return issues.length > 5 ? `${shown.join('; ')} (and ${issues.length - 5} more)` : shown.join('; ');
+}
+
+function repairPrompt(prompt: string, answer: string, issues: OutputIssue[]): string {
+  return `${prompt}
+
+Your previous answer could not be used:
+${answer.slice(0, 4000)}
+
+It had these problems:
+${issues.slice(0, 20).map(issue => `- ${issue.path || '/'}: ${issue.message}`).join('\n')}
+
+Answer again with only the corrected JSON.`;
+}
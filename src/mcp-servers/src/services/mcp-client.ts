@@ -0,0 +1,191 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import ServerConfig from '../config/server.config';
+import { ServiceDefinition } from '../config/service.registry';
+
+/**
+ * Error raised when a tool cannot be resolved, rejects its arguments or fails
+ */
+export class MCPToolError extends Error {
+  public readonly toolName: string;
+  public readonly validationErrors?: ErrorObject[];
+
+  constructor(toolName: string, message: string, validationErrors?: ErrorObject[]) {
+    super(message);
+    this.name = 'MCPToolError';
+    this.toolName = toolName;
+    this.validationErrors = validationErrors;
+  }
+}
+
+interface DiscoveredTool {
+  service: ServiceDefinition;
+  tool: Tool;
+  validate: ValidateFunction;
+}
+
+export interface ToolCallOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+}
+
+/**
+ * Client for the MCP tools published by a set of services. Tools are
+ * discovered by name, so a service can be replaced by any MCP server that
+ * advertises the same tools.
+ */
+export class MCPClient {
+  private services: ServiceDefinition[];
+  private clients: Map<string, Client>;
+  private tools: Map<string, DiscoveredTool>;
+  private ajv: Ajv;
+
+  constructor(services: ServiceDefinition[]) {
+    this.services = services;
+    this.clients = new Map();
+    this.tools = new Map();
+    this.ajv = new Ajv({ allErrors: true, strict: false });
+  }
+
+  /**
+   * Discover the tools advertised by every service
+   */
+  public async discoverTools(): Promise<Tool[]> {
+    this.tools.clear();
+
+    for (const service of this.services) {
+      try {
+        const client = await this.getClient(service);
+        const { tools } = await client.listTools();
+
+        for (const tool of tools) {
+          if (this.tools.has(tool.name)) {
+            console.warn(`[MCPClient] Tool ${tool.name} from ${service.name} shadows ${this.tools.get(tool.name)!.service.name}`);
+          }
+
+          this.tools.set(tool.name, {
+            service,
+            tool,
+            validate: this.ajv.compile(tool.inputSchema)
+          });
+        }
+      } catch (error) {
+        console.warn(`[MCPClient] Could not list tools from ${service.name} at ${service.mcpUrl}:`, (error as Error).message);
+        this.clients.delete(service.key);
+      }
+    }
+
+    return Array.from(this.tools.values()).map(({ tool }) => tool);
+  }
+
+  /**
+   * Validate arguments against a tool's advertised schema and invoke it
+   */
+  public async callTool(
+    name: string,
+    args: Record<string, any>,
+    options?: ToolCallOptions
+  ): Promise<Record<string, any>> {
+    const discovered = await this.resolveTool(name);
+
+    if (!discovered.validate(args)) {
+      const errors = discovered.validate.errors || [];
+      throw new MCPToolError(
+        name,
+        `Invalid arguments for ${name}: ${this.ajv.errorsText(errors)}`,
+        errors
+      );
+    }
+
+    options?.signal?.throwIfAborted();
+
+    // Cancellable calls get their own connection: closing it aborts the HTTP
+    // request, which stops the tool on the server without touching other calls
+    const client = options?.signal
+      ? await this.connect(discovered.service)
+      : await this.getClient(discovered.service);
+
+    let result;
+    try {
+      result = await client.callTool({ name, arguments: args }, undefined, {
+        signal: options?.signal,
+        timeout: options?.timeout ?? ServerConfig.toolTimeout
+      });
+    } catch (error) {
+      // Drop the connection so the next call reconnects
+      if (!options?.signal) {
+        this.clients.delete(discovered.service.key);
+      }
+      throw error;
+    } finally {
+      if (options?.signal) {
+        await client.close();
+      }
+    }
+
+    const text = Array.isArray(result.content)
+      ? result.content
+        .filter((item: any) => item.type === 'text')
+        .map((item: any) => item.text)
+        .join('\n')
+      : '';
+
+    if (result.isError) {
+      throw new MCPToolError(name, text || `Tool ${name} failed`);
+    }
+
+    if (result.structuredContent) {
+      return result.structuredContent as Record<string, any>;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return { content: text };
+    }
+  }
+
+  /**
+   * Close all open connections
+   */
+  public async close(): Promise<void> {
+    await Promise.all(Array.from(this.clients.values()).map(client => client.close()));
+    this.clients.clear();
+  }
+
+  private async resolveTool(name: string): Promise<DiscoveredTool> {
+    if (!this.tools.has(name)) {
+      // Services may have started after the last discovery
+      await this.discoverTools();
+    }
+
+    const discovered = this.tools.get(name);
+
+    if (!discovered) {
+      throw new MCPToolError(name, `No registered service provides the tool ${name}`);
+    }
+
+    return discovered;
+  }
+
+  private async getClient(service: ServiceDefinition): Promise<Client> {
+    const existing = this.clients.get(service.key);
+    if (existing) {
+      return existing;
+    }
+
+    const client = await this.connect(service);
+
+    this.clients.set(service.key, client);
+    return client;
+  }
+
+  private async connect(service: ServiceDefinition): Promise<Client> {
+    const client = new Client({ name: 'agentic-pdf-orchestrator', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(service.mcpUrl)));
+
+    return client;
+  }
+}
@@ -1,100 +1,523 @@
 import { Request, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
 import { BaseMCPServer } from '../servers/base.server';
-import { WorkflowOrchestrator } from '../orchestration/workflow.orchestrator';
+import { WorkflowEngine, itemStepName } from '../orchestration/workflow-engine';
+import { InputFileError, WorkflowDefinition, WorkflowDefinitionRegistry } from '../orchestration/workflow-definition';
+import { MANIFEST_ARTIFACT_KIND } from '../orchestration/workflow-manifest';
 import ServerConfig from '../config/server.config';
+import { WorkflowCallback, WorkflowRecord, WorkflowSortField, WorkflowStatus, WorkflowStore } from './workflow-store';
+import { JobPriority, JobQueue } from './job-queue';
+import { WorkflowEvent, WorkflowEvents } from './workflow-events';
+import { WEBHOOK_EVENTS, WebhookDispatcher, webhookEventFor } from './webhook-dispatcher';
+
+const PRIORITIES: JobPriority[] = ['high', 'normal', 'low'];
+
+const STATUSES: WorkflowStatus[] = [
+  'queued',
+  'running',
+  'awaiting_review',
+  'success',
+  'failure',
+  'interrupted',
+  'cancelled'
+];
+// Workflows an identical request is answered with when deduplicating
+const DEDUPE_STATUSES: WorkflowStatus[] = ['queued', 'running', 'awaiting_review', 'success'];
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// Options of the form-filling definition accepted at the top level of the body
+const FORM_FILLING_OPTIONS = [
+  'analysisProvider',
+  'fieldProvider',
+  'fieldAnalysisMode',
+  'confidenceThreshold',
+  'skipDownloadOnError',
+  'fieldValues'
+];
+
+const SORT_FIELDS: WorkflowSortField[] = ['startTime', 'completedTime', 'duration', 'status', 'type'];
+
+// Page size of workflow listings
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// How long deleting a running workflow waits for it to stop
+const DELETE_SETTLE_TIMEOUT = 10000;
+
+// Comment lines keep idle event streams from being closed by proxies
+const EVENT_STREAM_HEARTBEAT = 15000;
 
 export class OrchestrationService extends BaseMCPServer {
-  private orchestrator: WorkflowOrchestrator;
-  private activeWorkflows: Map<string, {
-    status: string;
-    startTime: Date;
-    completedTime?: Date;
-  }>;
+  private definitions: WorkflowDefinitionRegistry;
+  private engine: WorkflowEngine;
+  private store: WorkflowStore;
+  private queue: JobQueue;
+  private events: WorkflowEvents;
+  private webhooks: WebhookDispatcher;
+  // Tail of the submissions being registered, one at a time
+  private submissions: Promise<void>;
 
   constructor() {
     super('Orchestration-Service');
-    this.orchestrator = new WorkflowOrchestrator();
-    this.activeWorkflows = new Map();
+    this.store = new WorkflowStore();
+    this.queue = new JobQueue(ServerConfig.workflowConcurrency);
+    this.events = new WorkflowEvents();
+    this.definitions = new WorkflowDefinitionRegistry();
+    this.engine = new WorkflowEngine(this.store, this.events);
+    this.webhooks = new WebhookDispatcher(this.store);
+    this.submissions = Promise.resolve();
+    this.recoverWorkflows();
+  }
+
+  /**
+   * Workflows that were running when the service last stopped will never
+   * finish; mark them so pollers stop waiting
+   */
+  private async recoverWorkflows(): Promise<void> {
+    try {
+      const recovered = await this.store.recoverInterrupted();
+
+      recovered.forEach(workflow => {
+        console.log(`[${this.serverName}] Workflow ${workflow.id} was interrupted by a restart, marked ${workflow.status}`);
+        this.notify(workflow.id, workflow.status, workflow.error);
+      });
+    } catch (error) {
+      this.logError(error as Error);
+    }
   }
 
   protected setupRoutes(): void {
+    this.app.get('/workflow-definitions', this.listDefinitions.bind(this));
+    this.app.get('/workflows', this.listWorkflows.bind(this));
     this.app.post('/workflow/pdf-analysis', this.startPdfAnalysisWorkflow.bind(this));
+    this.app.post('/workflow/form-filling', this.startFormFillingWorkflow.bind(this));
+    this.app.post('/workflow/:definitionName', this.startDefinedWorkflow.bind(this));
     this.app.get('/workflow/:workflowId', this.getWorkflowStatus.bind(this));
+    this.app.get('/workflow/:workflowId/events', this.streamWorkflowEvents.bind(this));
+    this.app.get('/workflow/:workflowId/webhooks', this.getWebhookDeliveries.bind(this));
+    this.app.get('/workflow/:workflowId/manifest', this.downloadManifest.bind(this));
+    this.app.post('/workflow/:workflowId/review', this.reviewWorkflow.bind(this));
+    this.app.post('/workflow/:workflowId/cancel', this.cancelWorkflow.bind(this));
+    this.app.post('/workflow/:workflowId/rerun', this.rerunWorkflow.bind(this));
     this.app.delete('/workflow/:workflowId', this.clearWorkflow.bind(this));
     this.app.get('/status', this.statusHandler.bind(this));
   }
 
-  private async startPdfAnalysisWorkflow(req: Request, res: Response): Promise<void> {
+  private listDefinitions(_req: Request, res: Response): void {
+    res.json({
+      definitions: this.definitions.list().map(definition => ({
+        name: definition.name,
+        description: definition.description,
+        inputs: definition.inputs,
+        steps: definition.steps.map(step => ({ id: step.id, tool: step.tool, ...(step.forEach && { forEach: true }) }))
+      }))
+    });
+  }
+
+  /**
+   * Find past and current workflows by status, type, start date and form,
+   * a page at a time, with summary fields for each
+   */
+  private async listWorkflows(req: Request, res: Response): Promise<void> {
     try {
-      const { pdfUrl, analysisProvider, filename } = req.body;
+      const statuses = this.listParam(req.query.status) as WorkflowStatus[];
+      const types = this.listParam(req.query.type);
+      const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+      const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+
+      // A date without a time includes the whole day
+      if (to && /^\d{4}-\d{2}-\d{2}$/.test(String(req.query.to))) {
+        to.setUTCDate(to.getUTCDate() + 1);
+        to.setUTCMilliseconds(-1);
+      }
+      const form = req.query.form ? String(req.query.form) : undefined;
+      const sort = String(req.query.sort || 'startTime') as WorkflowSortField;
+      const order = String(req.query.order || 'desc');
+      const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_PAGE_SIZE;
+      const offset = req.query.offset ? Number(req.query.offset) : 0;
+
+      const invalidStatuses = statuses.filter(status => !STATUSES.includes(status));
+
+      if (invalidStatuses.length > 0) {
+        res.status(400).json({ error: `Status must be one of: ${STATUSES.join(', ')}` });
+        return;
+      }
 
-      if (!pdfUrl) {
-        res.status(400).json({ error: 'PDF URL is required' });
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        res.status(400).json({ error: 'from and to must be dates, e.g. 2024-11-01 or 2024-11-01T12:00:00Z' });
         return;
       }
 
-      // Generate a workflow ID
-      const workflowId = `pdf-analysis-${Date.now()}`;
+      if (!SORT_FIELDS.includes(sort)) {
+        res.status(400).json({ error: `sort must be one of: ${SORT_FIELDS.join(', ')}` });
+        return;
+      }
 
-      // Register the workflow
-      this.activeWorkflows.set(workflowId, {
-        status: 'running',
-        startTime: new Date()
-      });
+      if (order !== 'asc' && order !== 'desc') {
+        res.status(400).json({ error: 'order must be asc or desc' });
+        return;
+      }
 
-      // Start the workflow asynchronously
-      this.runWorkflowAsync(workflowId, pdfUrl, analysisProvider, filename);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE || !Number.isInteger(offset) || offset < 0) {
+        res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE} and offset at least 0` });
+        return;
+      }
+
+      const { workflows, total } = await this.store.queryWorkflows({
+        statuses,
+        types,
+        from,
+        to,
+        form,
+        sort,
+        order,
+        limit,
+        offset
+      });
 
-      // Return immediately with the workflow ID
       res.json({
-        status: 'accepted',
-        message: 'PDF analysis workflow started',
-        workflowId
+        workflows: await Promise.all(workflows.map(workflow => this.summarizeWorkflow(workflow))),
+        total,
+        limit,
+        offset
       });
     } catch (error) {
       this.logError(error as Error);
       res.status(500).json({
-        error: 'Failed to start PDF analysis workflow',
+        error: 'Failed to list workflows',
         message: (error as Error).message
       });
     }
   }
 
-  private async runWorkflowAsync(
-    workflowId: string,
-    pdfUrl: string,
-    analysisProvider?: 'perplexity' | 'openai',
-    filename?: string
+  private async summarizeWorkflow(workflow: WorkflowRecord): Promise<Record<string, any>> {
+    const definition = this.definitions.get(workflow.type);
+    const { priority, ...inputs } = workflow.params;
+
+    return {
+      workflowId: workflow.id,
+      type: workflow.type,
+      status: workflow.status,
+      priority,
+      startTime: workflow.startTime,
+      completedTime: workflow.completedTime,
+      durationMs: workflow.completedTime
+        ? workflow.completedTime.getTime() - workflow.startTime.getTime()
+        : undefined,
+      error: workflow.error,
+      summary: definition ? await this.engine.getSummary(definition, workflow.id, inputs) : {}
+    };
+  }
+
+  /**
+   * Comma-separated or repeated query parameter as a list
+   */
+  private listParam(value: unknown): string[] {
+    if (value === undefined) {
+      return [];
+    }
+
+    return (Array.isArray(value) ? value : [value])
+      .flatMap(item => String(item).split(','))
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+
+  private async startPdfAnalysisWorkflow(req: Request, res: Response): Promise<void> {
+    const { pdfUrl, analysisProvider, filename } = req.body;
+
+    if (!pdfUrl) {
+      res.status(400).json({ error: 'PDF URL is required' });
+      return;
+    }
+
+    await this.startWorkflow('pdf-analysis', { pdfUrl, analysisProvider, filename }, req, res);
+  }
+
+  /**
+   * Options may be sent at the top level of the body or in an `options`
+   * object, as the form-filling definition declares them
+   */
+  private async startFormFillingWorkflow(req: Request, res: Response): Promise<void> {
+    const { pdfUrl, donorDocumentPaths = [], options: nestedOptions = {} } = req.body;
+
+    if (!pdfUrl) {
+      res.status(400).json({ error: 'PDF URL is required' });
+      return;
+    }
+
+    if (!Array.isArray(donorDocumentPaths)) {
+      res.status(400).json({ error: 'Donor document paths must be an array' });
+      return;
+    }
+
+    if (!nestedOptions || typeof nestedOptions !== 'object' || Array.isArray(nestedOptions)) {
+      res.status(400).json({ error: 'options must be an object' });
+      return;
+    }
+
+    const options: Record<string, any> = { ...nestedOptions };
+
+    for (const name of FORM_FILLING_OPTIONS) {
+      if (req.body[name] === undefined) {
+        continue;
+      }
+
+      if (options[name] !== undefined && !isDeepStrictEqual(options[name], req.body[name])) {
+        res.status(400).json({ error: `${name} is given both at the top level and in options with different values` });
+        return;
+      }
+
+      options[name] = req.body[name];
+    }
+
+    await this.startWorkflow('form-filling', { pdfUrl, donorDocumentPaths, options }, req, res);
+  }
+
+  /**
+   * Start any registered workflow definition; the body holds its inputs
+   */
+  private async startDefinedWorkflow(req: Request<{ definitionName: string }>, res: Response): Promise<void> {
+    const { definitionName } = req.params;
+    const { priority, dedupe, callback, ...inputs } = req.body;
+
+    if (!this.definitions.get(definitionName)) {
+      res.status(404).json({ error: `Unknown workflow: ${definitionName}` });
+      return;
+    }
+
+    await this.startWorkflow(definitionName, inputs, req, res);
+  }
+
+  /**
+   * Validate the inputs, register the workflow and queue it to run when a
+   * worker is free. Responds immediately with the workflow ID.
+   *
+   * A request repeating an earlier request's Idempotency-Key, or with
+   * deduplication on one identical to an earlier request, is answered with
+   * the existing workflow instead.
+   */
+  private async startWorkflow(
+    definitionName: string,
+    rawInputs: Record<string, any>,
+    req: Request<any>,
+    res: Response
   ): Promise<void> {
     try {
-      console.log(`[${this.serverName}] Running workflow ${workflowId} asynchronously`);
+      const { priority = 'normal', dedupe = ServerConfig.workflowDedupe } = req.body;
+      const idempotencyKey = req.get('Idempotency-Key');
+
+      if (!PRIORITIES.includes(priority)) {
+        res.status(400).json({ error: `Priority must be one of: ${PRIORITIES.join(', ')}` });
+        return;
+      }
 
-      const result = await this.orchestrator.runPdfAnalysisWorkflow(pdfUrl, {
-        analysisProvider,
-        filename
+      if (typeof dedupe !== 'boolean') {
+        res.status(400).json({ error: 'dedupe must be true or false' });
+        return;
+      }
+
+      const { callback, error: callbackError } = this.parseCallback(req.body.callback);
+
+      if (callbackError) {
+        res.status(400).json({ error: callbackError });
+        return;
+      }
+
+      if (idempotencyKey !== undefined && (!idempotencyKey || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
+        res.status(400).json({ error: `Idempotency-Key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+        return;
+      }
+
+      const { inputs, error } = this.definitions.validateInputs(definitionName, rawInputs);
+
+      if (error) {
+        res.status(400).json({ error: `Invalid workflow inputs: ${error}` });
+        return;
+      }
+
+      const requestHash = await this.definitions.fingerprint(definitionName, inputs);
+
+      // Look up and register one submission at a time so simultaneous
+      // duplicates cannot both start a workflow
+      await this.serialize(async () => {
+        if (idempotencyKey) {
+          const existing = await this.store.findByIdempotencyKey(definitionName, idempotencyKey);
+
+          if (existing && existing.requestHash !== requestHash) {
+            res.status(422).json({
+              error: 'Idempotency-Key was already used for a different request',
+              workflowId: existing.id
+            });
+            return;
+          }
+
+          if (existing) {
+            this.respondWithExisting(existing, 'Idempotency-Key', res);
+            return;
+          }
+        }
+
+        if (dedupe) {
+          const existing = await this.store.findByRequestHash(requestHash, DEDUPE_STATUSES);
+
+          if (existing) {
+            this.respondWithExisting(existing, 'inputs and documents', res);
+            return;
+          }
+        }
+
+        // Generate a workflow ID; the random part keeps workflows submitted
+        // in the same millisecond apart
+        const workflowId = `${definitionName}-${Date.now()}-${Math.round(Math.random() * 1E9)}`;
+
+        // Register the workflow
+        const workflow: WorkflowRecord = {
+          id: workflowId,
+          type: definitionName,
+          status: 'queued',
+          params: { ...inputs, priority },
+          startTime: new Date(),
+          idempotencyKey,
+          requestHash,
+          callback
+        };
+        await this.store.createWorkflow(workflow);
+
+        const queuePosition = this.enqueueWorkflow(workflow);
+
+        res.json({
+          status: 'accepted',
+          message: `Workflow ${definitionName} ${queuePosition > 0 ? 'queued' : 'started'}`,
+          workflowId,
+          queuePosition
+        });
       });
+    } catch (error) {
+      if (error instanceof InputFileError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
 
-      // Update workflow status
-      this.activeWorkflows.set(workflowId, {
-        status: result.status,
-        startTime: this.activeWorkflows.get(workflowId)?.startTime || new Date(),
-        completedTime: new Date()
+      this.logError(error as Error);
+      res.status(500).json({
+        error: `Failed to start ${definitionName} workflow`,
+        message: (error as Error).message
       });
+    }
+  }
+
+  /**
+   * Validate the webhook a workflow is started with; every event is
+   * subscribed to unless listed
+   */
+  private parseCallback(value: any): { callback?: WorkflowCallback; error?: string } {
+    if (value === undefined) {
+      return {};
+    }
+
+    const { url, events = WEBHOOK_EVENTS, secret } = value || {};
+    let protocol: string | undefined;
+
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      protocol = undefined;
+    }
+
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return { error: 'callback.url must be an http or https URL' };
+    }
+
+    if (!Array.isArray(events) || events.length === 0 || events.some(event => !WEBHOOK_EVENTS.includes(event))) {
+      return { error: `callback.events must list some of: ${WEBHOOK_EVENTS.join(', ')}` };
+    }
+
+    if (secret !== undefined && (typeof secret !== 'string' || !secret)) {
+      return { error: 'callback.secret must be a non-empty string' };
+    }
+
+    if (!secret && !ServerConfig.webhookSecret) {
+      return { error: 'callback.secret is required when WEBHOOK_SECRET is not configured' };
+    }
 
-      console.log(`[${this.serverName}] Workflow ${workflowId} completed with status: ${result.status}`);
+    return { callback: { url, events, ...(secret && { secret }) } };
+  }
+
+  private respondWithExisting(workflow: WorkflowRecord, matchedBy: string, res: Response): void {
+    res.json({
+      status: 'existing',
+      message: `Returning workflow ${workflow.id}, submitted with the same ${matchedBy}`,
+      workflowId: workflow.id,
+      workflowStatus: workflow.status,
+      queuePosition: this.queue.getPosition(workflow.id) ?? 0
+    });
+  }
+
+  private serialize(task: () => Promise<void>): Promise<void> {
+    const run = this.submissions.then(task);
+    this.submissions = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Queue a registered workflow with the parameters it was recorded with and
+   * return its queue position
+   */
+  private enqueueWorkflow(workflow: WorkflowRecord): number {
+    const queuePosition = this.queue.enqueue(
+      workflow.id,
+      signal => this.runWorkflowAsync(workflow, signal),
+      workflow.params.priority
+    );
+
+    if (queuePosition > 0) {
+      this.events.emit(workflow.id, 'queued', `Waiting in the queue at position ${queuePosition}`, {
+        data: { queuePosition }
+      });
+    }
+
+    return queuePosition;
+  }
+
+  private async runWorkflowAsync(workflow: WorkflowRecord, signal: AbortSignal): Promise<void> {
+    const workflowId = workflow.id;
+
+    try {
+      console.log(`[${this.serverName}] Running ${workflow.type} workflow ${workflowId} asynchronously`);
+      await this.store.updateStatus(workflowId, 'running');
+      this.events.emit(workflowId, 'started', 'Workflow started');
+
+      const { priority, ...inputs } = workflow.params;
+      const result = await this.engine.run(this.getDefinition(workflow), workflowId, inputs, signal);
+
+      // Update workflow status
+      await this.finishWorkflow(workflowId, result, signal);
     } catch (error) {
       console.error(`[${this.serverName}] Workflow ${workflowId} failed:`, error);
 
       // Update workflow status
-      this.activeWorkflows.set(workflowId, {
-        status: 'failure',
-        startTime: this.activeWorkflows.get(workflowId)?.startTime || new Date(),
-        completedTime: new Date()
-      });
+      await this.completeWorkflow(
+        workflowId,
+        signal.aborted ? 'cancelled' : 'failure',
+        (error as Error).message
+      );
+    }
+  }
+
+  private getDefinition(workflow: WorkflowRecord): WorkflowDefinition {
+    const definition = this.definitions.get(workflow.type);
+
+    if (!definition) {
+      throw new Error(`Unknown workflow: ${workflow.type}`);
     }
+
+    return definition;
   }
 
-  private async getWorkflowStatus(req: Request, res: Response): Promise<void> {
+  private async getWorkflowStatus(req: Request<{ workflowId: string }>, res: Response): Promise<void> {
     try {
       const { workflowId } = req.params;
 
@@ -104,30 +527,62 @@ export class OrchestrationService extends BaseMCPServer {
       }
 
       // Check if workflow exists
-      const workflowStatus = this.activeWorkflows.get(workflowId);
+      const workflowStatus = await this.store.getWorkflow(workflowId);
 
       if (!workflowStatus) {
         res.status(404).json({ error: 'Workflow not found' });
         return;
       }
 
+      if (workflowStatus.status === 'awaiting_review') {
+        const { priority, ...inputs } = workflowStatus.params;
+
+        res.json({
+          workflowId,
+          type: workflowStatus.type,
+          status: workflowStatus.status,
+          startTime: workflowStatus.startTime,
+          artifacts: await this.store.getArtifacts(workflowId),
+          review: await this.engine.getPendingReview(this.getDefinition(workflowStatus), workflowId, inputs),
+          message: 'Workflow is waiting for review'
+        });
+        return;
+      }
+
       // If workflow is completed, get the result
-      if (workflowStatus.status !== 'running') {
-        const result = this.orchestrator.getWorkflowResult(workflowId);
+      if (workflowStatus.status !== 'queued' && workflowStatus.status !== 'running') {
+        const definition = this.definitions.get(workflowStatus.type);
+        const result = definition ? await this.engine.getResult(definition, workflowId) : null;
 
         res.json({
           workflowId,
+          type: workflowStatus.type,
           status: workflowStatus.status,
           startTime: workflowStatus.startTime,
           completedTime: workflowStatus.completedTime,
+          error: workflowStatus.error,
+          artifacts: await this.store.getArtifacts(workflowId),
           result
         });
         return;
       }
 
-      // If workflow is still running
+      // If workflow is still waiting for a worker or running
+      if (workflowStatus.status === 'queued') {
+        res.json({
+          workflowId,
+          type: workflowStatus.type,
+          status: workflowStatus.status,
+          startTime: workflowStatus.startTime,
+          queuePosition: this.queue.getPosition(workflowId),
+          message: 'Workflow is waiting in the queue'
+        });
+        return;
+      }
+
       res.json({
         workflowId,
+        type: workflowStatus.type,
         status: workflowStatus.status,
         startTime: workflowStatus.startTime,
         message: 'Workflow is still running'
@@ -141,7 +596,402 @@ export class OrchestrationService extends BaseMCPServer {
     }
   }
 
-  private async clearWorkflow(req: Request, res: Response): Promise<void> {
+  /**
+   * Run a finished workflow again from one of its steps, with changed
+   * options. Stored results of earlier steps are reused; without `fromStep`
+   * the workflow resumes at the first step that has no result.
+   */
+  private async rerunWorkflow(req: Request<{ workflowId: string }>, res: Response): Promise<void> {
+    try {
+      const { workflowId } = req.params;
+      const { fromStep, options = {}, inputs = {}, donorDocumentPaths, priority } = req.body;
+      // 'donorDocuments' is the form filling name for the items to redo
+      const items = req.body.items ?? req.body.donorDocuments;
+
+      const workflow = await this.store.getWorkflow(workflowId);
+
+      if (!workflow) {
+        res.status(404).json({ error: 'Workflow not found' });
+        return;
+      }
+
+      if (workflow.status === 'queued' || workflow.status === 'running') {
+        res.status(409).json({ error: `Workflow is still ${workflow.status}` });
+        return;
+      }
+
+      const definition = this.getDefinition(workflow);
+      const steps = definition.steps.map(step => step.id);
+      const stored = await this.store.getSteps(workflowId);
+      const startStep = fromStep ?? steps.find(step => !stored[step]);
+
+      if (!startStep) {
+        res.status(400).json({ error: 'The workflow completed every step; fromStep is required to run it again' });
+        return;
+      }
+
+      if (!steps.includes(startStep)) {
+        res.status(400).json({ error: `fromStep must be one of: ${steps.join(', ')}` });
+        return;
+      }
+
+      if (priority !== undefined && !PRIORITIES.includes(priority)) {
+        res.status(400).json({ error: `Priority must be one of: ${PRIORITIES.join(', ')}` });
+        return;
+      }
+
+      if (items !== undefined && !Array.isArray(items)) {
+        res.status(400).json({ error: 'Items to rerun must be an array' });
+        return;
+      }
+
+      // Options are merged into the 'options' input when the definition has
+      // one, and into the inputs themselves otherwise
+      const { priority: previousPriority, ...previousInputs } = workflow.params;
+      const mergedInputs = {
+        ...previousInputs,
+        ...inputs,
+        ...(donorDocumentPaths !== undefined && { donorDocumentPaths }),
+        ...(definition.inputs.properties?.options
+          ? { options: { ...previousInputs.options, ...options } }
+          : options)
+      };
+
+      const validated = this.definitions.validateInputs(definition.name, mergedInputs);
+
+      if (validated.error) {
+        res.status(400).json({ error: `Invalid workflow inputs: ${validated.error}` });
+        return;
+      }
+
+      // Drop the results of the chosen step and everything after it. The
+      // items of a forEach step are only run again when explicitly rerunning
+      // from that step, optionally limited to the listed items.
+      const rerunSteps = steps.slice(steps.indexOf(startStep));
+      const redoItems = fromStep && definition.steps.find(step => step.id === fromStep)?.forEach
+        ? (items || Object.keys(stored).filter(step => step.startsWith(`${fromStep}:`)).map(step => step.slice(fromStep.length + 1)))
+        : [];
+      const staleSteps = Object.keys(stored).filter(step =>
+        rerunSteps.includes(step) || redoItems.some((item: any) => itemStepName(fromStep, item) === step)
+      );
+
+      const params = { ...validated.inputs, priority: priority ?? previousPriority ?? 'normal' };
+      const requestHash = await this.definitions.fingerprint(definition.name, validated.inputs);
+
+      await this.store.deleteSteps(workflowId, staleSteps);
+      await this.store.restartWorkflow(workflowId, params, requestHash);
+
+      // Subscribers of the new run should not see the previous run's events
+      this.events.clear(workflowId);
+
+      const queuePosition = this.enqueueWorkflow({ ...workflow, status: 'queued', params });
+
+      res.json({
+        status: 'accepted',
+        message: `Workflow rerunning from step: ${startStep}`,
+        workflowId,
+        fromStep: startStep,
+        queuePosition
+      });
+    } catch (error) {
+      if (error instanceof InputFileError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+
+      this.logError(error as Error);
+      res.status(500).json({
+        error: 'Failed to rerun workflow',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Approve or reject the data a workflow is waiting on. An approval stores
+   * the reviewed data, with any edited values, and queues the workflow to
+   * continue; a rejection ends it as failed.
+   */
+  private async reviewWorkflow(req: Request<{ workflowId: string }>, res: Response): Promise<void> {
+    try {
+      const { workflowId } = req.params;
+      const { approved, comment, ...edits } = req.body;
+
+      // Check and record one review at a time, so simultaneous approvals
+      // cannot both queue the workflow
+      await this.serialize(async () => {
+        const workflow = await this.store.getWorkflow(workflowId);
+
+        if (!workflow) {
+          res.status(404).json({ error: 'Workflow not found' });
+          return;
+        }
+
+        if (workflow.status !== 'awaiting_review') {
+          res.status(409).json({ error: `Workflow is not awaiting review (status: ${workflow.status})` });
+          return;
+        }
+
+        if (typeof approved !== 'boolean') {
+          res.status(400).json({ error: 'approved must be true or false' });
+          return;
+        }
+
+        const definition = this.getDefinition(workflow);
+        const { priority, ...inputs } = workflow.params;
+        const review = await this.engine.getPendingReview(definition, workflowId, inputs);
+
+        if (!review) {
+          res.status(409).json({ error: 'Workflow has no pending review' });
+          return;
+        }
+
+        if (!approved) {
+          await this.completeWorkflow(workflowId, 'failure', `Rejected in review${comment ? `: ${comment}` : ''}`);
+
+          res.json({
+            status: 'success',
+            message: 'Review rejected',
+            workflowId
+          });
+          return;
+        }
+
+        // Edits may only replace reviewed values, and keep their shape
+        const invalid = Object.keys(edits).filter(key =>
+          !(key in review.data) || Array.isArray(edits[key]) !== Array.isArray(review.data[key])
+        );
+
+        if (invalid.length > 0) {
+          res.status(400).json({
+            error: `Invalid review values: ${invalid.join(', ')}`,
+            reviewable: Object.keys(review.data)
+          });
+          return;
+        }
+
+        await this.engine.submitReview(definition, workflowId, review, edits, comment);
+        await this.store.updateStatus(workflowId, 'queued');
+
+        // Streams opened to follow the continuing run should not replay the
+        // 'awaiting-review' event they were reopened after
+        this.events.clear(workflowId);
+        this.events.emit(workflowId, 'step-completed', 'Review approved', {
+          step: review.step,
+          data: { edited: Object.keys(edits) }
+        });
+
+        const queuePosition = this.enqueueWorkflow({ ...workflow, status: 'queued' });
+
+        res.json({
+          status: 'accepted',
+          message: 'Review approved, workflow continuing',
+          workflowId,
+          queuePosition
+        });
+      });
+    } catch (error) {
+      this.logError(error as Error);
+      res.status(500).json({
+        error: 'Failed to review workflow',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * The workflow's webhook subscription and every delivery attempt made
+   */
+  private async getWebhookDeliveries(req: Request<{ workflowId: string }>, res: Response): Promise<void> {
+    try {
+      const { workflowId } = req.params;
+
+      const workflow = await this.store.getWorkflow(workflowId);
+
+      if (!workflow) {
+        res.status(404).json({ error: 'Workflow not found' });
+        return;
+      }
+
+      res.json({
+        workflowId,
+        callback: workflow.callback && { url: workflow.callback.url, events: workflow.callback.events },
+        deliveries: await this.store.getWebhookDeliveries(workflowId)
+      });
+    } catch (error) {
+      this.logError(error as Error);
+      res.status(500).json({
+        error: 'Failed to get webhook deliveries',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Download the manifest of a workflow's latest finished run
+   */
+  private async downloadManifest(req: Request<{ workflowId: string }>, res: Response): Promise<void> {
+    try {
+      const { workflowId } = req.params;
+
+      const workflow = await this.store.getWorkflow(workflowId);
+
+      if (!workflow) {
+        res.status(404).json({ error: 'Workflow not found' });
+        return;
+      }
+
+      const manifest = (await this.store.getArtifacts(workflowId))
+        .filter(artifact => artifact.kind === MANIFEST_ARTIFACT_KIND)
+        .pop();
+
+      if (!manifest || !fs.existsSync(manifest.path)) {
+        res.status(404).json({
+          error: 'Manifest not found',
+          message: 'A manifest is written once a workflow run has finished'
+        });
+        return;
+      }
+
+      res.download(manifest.path, path.basename(manifest.path));
+    } catch (error) {
+      this.logError(error as Error);
+      res.status(500).json({
+        error: 'Failed to get workflow manifest',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Stream a workflow's progress as Server-Sent Events. Events published so
+   * far are replayed first; the stream ends after the 'completed' event and
+   * stays open while the workflow waits for review.
+   */
+  private async streamWorkflowEvents(req: Request<{ workflowId: string }>, res: Response): Promise<void> {
+    try {
+      const { workflowId } = req.params;
+
+      const workflowStatus = await this.store.getWorkflow(workflowId);
+
+      if (!workflowStatus) {
+        res.status(404).json({ error: 'Workflow not found' });
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+
+      const send = (event: WorkflowEvent) => {
+        res.write(`id: ${event.sequence}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      const history = this.events.getHistory(workflowId);
+      history.forEach(send);
+
+      const finished = !['queued', 'running', 'awaiting_review'].includes(workflowStatus.status);
+
+      if (finished || history.some(event => event.type === 'completed')) {
+        // History is kept in memory, so runs from before a restart only get
+        // their outcome
+        if (!history.some(event => event.type === 'completed')) {
+          send({
+            workflowId,
+            sequence: history.length,
+            type: 'completed',
+            message: `Workflow finished with status: ${workflowStatus.status}`,
+            data: { status: workflowStatus.status, ...(workflowStatus.error && { error: workflowStatus.error }) },
+            timestamp: (workflowStatus.completedTime || new Date()).toISOString()
+          });
+        }
+
+        res.end();
+        return;
+      }
+
+      if (workflowStatus.status === 'awaiting_review' && !history.some(event => event.type === 'awaiting-review')) {
+        send({
+          workflowId,
+          sequence: history.length,
+          type: 'awaiting-review',
+          message: 'Workflow is waiting for review',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), EVENT_STREAM_HEARTBEAT);
+      const unsubscribe = this.events.subscribe(workflowId, event => {
+        send(event);
+
+        if (event.type === 'completed') {
+          res.end();
+        }
+      });
+
+      res.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+    } catch (error) {
+      this.logError(error as Error);
+      res.status(500).json({
+        error: 'Failed to stream workflow events',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Cancel a queued, running or awaiting review workflow. A running workflow
+   * has its in-flight tool calls aborted and is marked cancelled once it
+   * unwinds.
+   */
+  private async cancelWorkflow(req: Request<{ workflowId: string }>, res: Response): Promise<void> {
+    try {
+      const { workflowId } = req.params;
+
+      const workflowStatus = await this.store.getWorkflow(workflowId);
+
+      if (!workflowStatus) {
+        res.status(404).json({ error: 'Workflow not found' });
+        return;
+      }
+
+      if (!['queued', 'running', 'awaiting_review'].includes(workflowStatus.status)) {
+        res.status(409).json({ error: `Workflow already finished with status: ${workflowStatus.status}` });
+        return;
+      }
+
+      const cancelled = this.queue.cancel(workflowId, 'Cancelled by request');
+
+      if (cancelled === 'running') {
+        res.json({
+          status: 'success',
+          message: 'Workflow is being cancelled'
+        });
+        return;
+      }
+
+      await this.completeWorkflow(workflowId, 'cancelled', 'Cancelled by request');
+
+      res.json({
+        status: 'success',
+        message: 'Workflow cancelled'
+      });
+    } catch (error) {
+      this.logError(error as Error);
+      res.status(500).json({
+        error: 'Failed to cancel workflow',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  private async clearWorkflow(req: Request<{ workflowId: string }>, res: Response): Promise<void> {
     try {
       const { workflowId } = req.params;
 
@@ -151,14 +1001,34 @@ export class OrchestrationService extends BaseMCPServer {
       }
 
       // Check if workflow exists
-      if (!this.activeWorkflows.has(workflowId)) {
+      const workflowStatus = await this.store.getWorkflow(workflowId);
+
+      if (!workflowStatus) {
         res.status(404).json({ error: 'Workflow not found' });
         return;
       }
 
+      // A job still running would write to the workflow after it is gone, so
+      // it is stopped first
+      if (this.queue.cancel(workflowId, 'Workflow deleted') === 'running') {
+        let timer: NodeJS.Timeout | undefined;
+        const stopped = await Promise.race([
+          this.queue.whenSettled(workflowId).then(() => true),
+          new Promise<boolean>(resolve => {
+            timer = setTimeout(() => resolve(false), DELETE_SETTLE_TIMEOUT);
+          })
+        ]);
+        clearTimeout(timer);
+
+        if (!stopped) {
+          res.status(409).json({ error: 'Workflow is still stopping; delete it again once it has been cancelled' });
+          return;
+        }
+      }
+
       // Clear workflow data
-      this.orchestrator.clearWorkflowCache(workflowId);
-      this.activeWorkflows.delete(workflowId);
+      await this.store.deleteWorkflow(workflowId);
+      this.events.clear(workflowId);
 
       res.json({
         status: 'success',
@@ -173,21 +1043,119 @@ export class OrchestrationService extends BaseMCPServer {
     }
   }
 
-  private statusHandler(_req: Request, res: Response): void {
-    const activeWorkflowCount = this.activeWorkflows.size;
-    const runningWorkflowCount = Array.from(this.activeWorkflows.values())
-      .filter(workflow => workflow.status === 'running')
-      .length;
+  /**
+   * Record the outcome of a workflow run; a run cut short by a cancel
+   * request is recorded as cancelled rather than failed. A run that stopped
+   * at a review step waits for it without completing.
+   */
+  private async finishWorkflow(
+    workflowId: string,
+    result: { status: 'success' | 'failure' | 'awaiting_review'; error?: string },
+    signal: AbortSignal
+  ): Promise<void> {
+    if (result.status === 'awaiting_review' && !signal.aborted) {
+      await this.store.updateStatus(workflowId, 'awaiting_review');
+      this.notify(workflowId, 'awaiting_review');
+      console.log(`[${this.serverName}] Workflow ${workflowId} is waiting for review`);
+      return;
+    }
 
-    res.json({
-      status: 'healthy',
-      workflows: {
-        total: activeWorkflowCount,
-        running: runningWorkflowCount,
-        completed: activeWorkflowCount - runningWorkflowCount
-      },
-      uptime: process.uptime(),
-      timestamp: new Date().toISOString()
+    const status: WorkflowStatus = signal.aborted ? 'cancelled' : result.status === 'success' ? 'success' : 'failure';
+    const error = signal.aborted ? (signal.reason as Error)?.message : result.error;
+
+    await this.store.completeWorkflow(workflowId, status, error);
+    this.events.emit(workflowId, 'completed', `Workflow finished with status: ${status}`, {
+      data: { status, ...(error && { error }) }
+    });
+    this.notify(workflowId, status, error);
+
+    console.log(`[${this.serverName}] Workflow ${workflowId} completed with status: ${status}`);
+  }
+
+  /**
+   * Record a failed workflow without letting a store error escape the
+   * background run
+   */
+  private async completeWorkflow(workflowId: string, status: WorkflowStatus, error?: string): Promise<void> {
+    try {
+      await this.store.completeWorkflow(workflowId, status, error);
+    } catch (storeError) {
+      this.logError(storeError as Error);
+    }
+
+    this.events.emit(workflowId, 'completed', `Workflow finished with status: ${status}`, {
+      data: { status, ...(error && { error }) }
     });
+    this.notify(workflowId, status, error);
+  }
+
+  /**
+   * Send the webhook for a workflow's new status, if it subscribed to it.
+   * Deliveries run in the background and never fail the workflow.
+   */
+  private async notify(workflowId: string, status: WorkflowStatus, error?: string): Promise<void> {
+    const event = webhookEventFor(status);
+
+    if (!event) {
+      return;
+    }
+
+    try {
+      const workflow = await this.store.getWorkflow(workflowId);
+
+      if (!workflow?.callback) {
+        return;
+      }
+
+      const definition = this.definitions.get(workflow.type);
+      const { priority, ...inputs } = workflow.params;
+
+      this.webhooks.dispatch(workflow, event, {
+        status,
+        ...(error && { error }),
+        summary: definition ? await this.engine.getSummary(definition, workflowId, inputs) : {}
+      });
+    } catch (notifyError) {
+      this.logError(notifyError as Error);
+    }
+  }
+
+  private async statusHandler(_req: Request, res: Response): Promise<void> {
+    try {
+      const workflows = await this.store.listWorkflows();
+      const queuedWorkflowCount = workflows.filter(workflow => workflow.status === 'queued').length;
+      const runningWorkflowCount = workflows.filter(workflow => workflow.status === 'running').length;
+      const awaitingReviewCount = workflows.filter(workflow => workflow.status === 'awaiting_review').length;
+      const interruptedWorkflowCount = workflows.filter(workflow => workflow.status === 'interrupted').length;
+
+      res.json({
+        status: 'healthy',
+        workflows: {
+          total: workflows.length,
+          queued: queuedWorkflowCount,
+          running: runningWorkflowCount,
+          awaitingReview: awaitingReviewCount,
+          interrupted: interruptedWorkflowCount,
+          completed: workflows.length - queuedWorkflowCount - runningWorkflowCount - awaitingReviewCount - interruptedWorkflowCount
+        },
+        queue: this.queue.getStats(),
+        uptime: process.uptime(),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      this.logError(error as Error);
+      res.status(500).json({
+        error: 'Failed to get service status',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  public async shutdown(): Promise<void> {
+    await super.shutdown();
+
+    // Changes still waiting to be written would be lost on exit
+    await this.store.close();
+    console.log(`[${this.serverName}] Workflow store closed`);
   }
 }
\ No newline at end of file
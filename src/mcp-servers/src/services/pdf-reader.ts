@@ -0,0 +1,70 @@
+import fs from 'fs';
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.js';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+
+/**
+ * Open a PDF, given by path or contents, for reading with pdf.js. Unlike
+ * pdf-lib, pdf.js decrypts documents protected by an owner password only,
+ * which is how the Judicial Council forms are distributed.
+ */
+export async function loadPdfDocument(source: string | Buffer): Promise<PDFDocumentProxy> {
+  // pdf.js takes ownership of the bytes, so buffers are copied
+  const data = new Uint8Array(typeof source === 'string' ? fs.readFileSync(source) : source);
+
+  return pdfjs.getDocument({
+    data,
+    isEvalSupported: false,
+    useSystemFonts: false,
+    verbosity: pdfjs.VerbosityLevel.ERRORS
+  }).promise;
+}
+
+/**
+ * Whether the PDF declares any AcroForm fields
+ */
+export async function hasFormFields(pdfPath: string): Promise<boolean> {
+  const doc = await loadPdfDocument(pdfPath);
+
+  try {
+    const fields = await doc.getFieldObjects();
+    return !!fields && Object.keys(fields).length > 0;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/**
+ * 'hybrid' forms carry both AcroForm fields and an XFA packet; 'xfa' forms
+ * are dynamic XFA only, with no AcroForm fields to fill
+ */
+export type FormType = 'acroform' | 'hybrid' | 'xfa' | 'flat';
+
+export interface FormInfo {
+  type: FormType;
+  hasXfa: boolean;
+  encrypted: boolean;
+}
+
+/**
+ * Which form technology the PDF uses. Viewers that support XFA render the
+ * XFA layer and ignore the AcroForm values, so fillers need to know.
+ */
+export async function getFormInfo(pdfPath: string): Promise<FormInfo> {
+  const doc = await loadPdfDocument(pdfPath);
+
+  try {
+    const { info } = await doc.getMetadata() as { info: Record<string, any> };
+    const fields = await doc.getFieldObjects();
+    const hasFields = !!fields && Object.keys(fields).length > 0;
+    const hasXfa = !!info.IsXFAPresent;
+
+    let type: FormType = hasFields ? 'acroform' : 'flat';
+    if (hasXfa) {
+      type = hasFields ? 'hybrid' : 'xfa';
+    }
+
+    return { type, hasXfa, encrypted: !!info.EncryptFilterName };
+  } finally {
+    await doc.destroy();
+  }
+}
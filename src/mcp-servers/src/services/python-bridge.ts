@@ -13,7 +13,7 @@ export class PythonBridge {
   constructor(pythonPath: string = 'python3') {
     this.pythonPath = pythonPath;
     this.scriptDir = path.resolve(__dirname);
-    this.pythonModuleDir = path.resolve(__dirname, '../../../python');
+    this.pythonModuleDir = path.resolve(__dirname, '../../python');
     this.ensureScriptsExist();
   }
 
@@ -33,11 +33,13 @@ export class PythonBridge {
    * Execute a Python function from the form-filler.py script
    * @param functionName Function name to execute
    * @param args Arguments to pass to the function
+   * @param signal Kills the Python process when aborted
    * @returns Promise with the function result
    */
   public async executePythonFunction(
     functionName: string,
-    args: Record<string, any>
+    args: Record<string, any>,
+    signal?: AbortSignal
   ): Promise<any> {
     return new Promise((resolve, reject) => {
       // Create a temporary Python script to execute the function
@@ -75,7 +77,7 @@ print(json.dumps(result))
       console.log(`[PythonBridge] Using Python module directory: ${this.pythonModuleDir}`);
 
       // Execute the temporary script
-      const pythonProcess = spawn(this.pythonPath, [tempScriptPath]);
+      const pythonProcess = spawn(this.pythonPath, [tempScriptPath], { signal });
 
       let stdout = '';
       let stderr = '';
@@ -89,10 +91,19 @@ print(json.dumps(result))
         console.error(`[PythonBridge] stderr: ${data.toString()}`);
       });
 
+      pythonProcess.on('error', (error) => {
+        console.error(`[PythonBridge] Python process error: ${error.message}`);
+      });
+
       pythonProcess.on('close', (code) => {
         // Clean up the temporary script
         fs.unlinkSync(tempScriptPath);
 
+        if (signal?.aborted) {
+          reject(new Error(`Python execution of ${functionName} was cancelled`));
+          return;
+        }
+
         if (code !== 0) {
           console.error(`[PythonBridge] Python process exited with code ${code}`);
           console.error(`[PythonBridge] stderr: ${stderr}`);
@@ -116,18 +127,20 @@ print(json.dumps(result))
    * @param templatePath Path to the template PDF
    * @param donorDocuments Array of paths to donor documents
    * @param outputPath Path to save the filled PDF
+   * @param signal Cancels the processing when aborted
    * @returns Processing result
    */
   public async processDocument(
     templatePath: string,
     donorDocuments: string[],
-    outputPath: string
+    outputPath: string,
+    signal?: AbortSignal
   ): Promise<any> {
     return this.executePythonFunction('process_document', {
       template_path: templatePath,
       donor_documents: donorDocuments,
       output_path: outputPath
-    });
+    }, signal);
   }
 
   /**
@@ -135,17 +148,19 @@ print(json.dumps(result))
    * @param templatePath Path to the template PDF
    * @param fieldData Field data to fill
    * @param outputPath Path to save the filled PDF
+   * @param signal Cancels the filling when aborted
    * @returns Path to the filled PDF
    */
   public async fillPdf(
     templatePath: string,
     fieldData: Record<string, any> | Array<{field_name: string, value: any}>,
-    outputPath: string
+    outputPath: string,
+    signal?: AbortSignal
   ): Promise<string> {
     return this.executePythonFunction('fill_pdf', {
       template_path: templatePath,
       field_data: fieldData,
       output_path: outputPath
-    });
+    }, signal);
   }
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import path from 'path';
+import ServerConfig from '../config/server.config';
+
+/**
+ * Raised when a request names a file outside the uploads directory
+ */
+export class UploadPathError extends Error {
+  public readonly path: string;
+
+  constructor(filePath: string) {
+    super(`${filePath} is outside the uploads directory`);
+    this.name = 'UploadPathError';
+    this.path = filePath;
+  }
+}
+
+/**
+ * Whether an absolute path is the uploads directory or inside it
+ */
+export function isUploadPath(fullPath: string): boolean {
+  const uploadsDir = path.resolve(ServerConfig.uploadsDir);
+  return fullPath === uploadsDir || fullPath.startsWith(uploadsDir + path.sep);
+}
+
+/**
+ * Absolute path of a file named by a request: relative paths are taken
+ * from the uploads directory, as the servers read them. Paths that lead
+ * out of it, absolute or through `..`, raise an UploadPathError.
+ */
+export function resolveUploadPath(filePath: string): string {
+  const fullPath = path.resolve(ServerConfig.uploadsDir, filePath);
+
+  if (!isUploadPath(fullPath)) {
+    throw new UploadPathError(filePath);
+  }
+
+  return fullPath;
+}
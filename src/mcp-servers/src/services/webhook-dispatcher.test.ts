@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import ServerConfig from '../config/server.config';
+import { WebhookDispatcher, signWebhook } from './webhook-dispatcher';
+import { WebhookEvent, WorkflowRecord, WorkflowStore } from './workflow-store';
+
+const RETRY_DELAY = 50;
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  receivedAt: number;
+}
+
+/**
+ * HTTP receiver answering with the given status codes in turn, 200 once
+ * they run out
+ */
+class Receiver {
+  public requests: ReceivedRequest[] = [];
+  public statuses: number[] = [];
+  private server: http.Server;
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        this.requests.push({ headers: req.headers, body, receivedAt: Date.now() });
+        res.statusCode = this.statuses.shift() ?? 200;
+        res.end();
+      });
+    });
+  }
+
+  public get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/hook`;
+  }
+
+  public listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  public close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+function workflow(id: string, url: string, events: WebhookEvent[] = ['completed'], secret?: string): WorkflowRecord {
+  return {
+    id,
+    type: 'form-filling',
+    status: 'success',
+    params: {},
+    startTime: new Date(),
+    callback: { url, events, ...(secret && { secret }) }
+  };
+}
+
+describe('WebhookDispatcher', () => {
+  const saved = {
+    webhookSecret: ServerConfig.webhookSecret,
+    webhookMaxAttempts: ServerConfig.webhookMaxAttempts,
+    webhookRetryDelay: ServerConfig.webhookRetryDelay,
+    webhookTimeout: ServerConfig.webhookTimeout
+  };
+  let dir: string;
+  let store: WorkflowStore;
+  let dispatcher: WebhookDispatcher;
+  let receiver: Receiver;
+
+  beforeAll(() => {
+    Object.assign(ServerConfig, {
+      webhookSecret: 'server-secret',
+      webhookMaxAttempts: 3,
+      webhookRetryDelay: RETRY_DELAY,
+      webhookTimeout: 2000
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    Object.assign(ServerConfig, saved);
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-'));
+    store = new WorkflowStore(path.join(dir, 'workflows.sqlite'), 0);
+    dispatcher = new WebhookDispatcher(store);
+    receiver = new Receiver();
+    await receiver.listen();
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+    await store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('signs the body with the workflow secret and logs the delivery', async () => {
+    await dispatcher.dispatch(workflow('wf-1', receiver.url, ['completed'], 'workflow-secret'), 'completed', { status: 'success' });
+
+    expect(receiver.requests).toHaveLength(1);
+    const [{ headers, body }] = receiver.requests;
+    const timestamp = headers['x-webhook-timestamp'] as string;
+    const expected = crypto.createHmac('sha256', 'workflow-secret').update(`${timestamp}.${body}`).digest('hex');
+
+    expect(headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+    expect(headers['x-webhook-event']).toBe('completed');
+    expect(headers['content-type']).toBe('application/json');
+    expect(JSON.parse(body)).toMatchObject({
+      deliveryId: headers['x-webhook-delivery'],
+      event: 'completed',
+      workflowId: 'wf-1',
+      type: 'form-filling',
+      status: 'success'
+    });
+
+    const deliveries = await store.getWebhookDeliveries('wf-1');
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({
+      deliveryId: headers['x-webhook-delivery'],
+      event: 'completed',
+      url: receiver.url,
+      attempt: 1,
+      statusCode: 200,
+      delivered: true
+    });
+    expect(deliveries[0].nextAttemptAt).toBeUndefined();
+  });
+
+  it('signs with WEBHOOK_SECRET when the workflow has no secret', async () => {
+    await dispatcher.dispatch(workflow('wf-2', receiver.url), 'completed', {});
+
+    const [{ headers, body }] = receiver.requests;
+    const timestamp = headers['x-webhook-timestamp'] as string;
+
+    expect(headers['x-webhook-signature']).toBe(`sha256=${signWebhook('server-secret', timestamp, body)}`);
+  });
+
+  it('retries 5xx and 429 responses with exponential backoff', async () => {
+    receiver.statuses = [503, 429];
+
+    await dispatcher.dispatch(workflow('wf-3', receiver.url), 'completed', {});
+
+    expect(receiver.requests).toHaveLength(3);
+    const [first, second, third] = receiver.requests;
+    expect(second.receivedAt - first.receivedAt).toBeGreaterThanOrEqual(RETRY_DELAY);
+    expect(third.receivedAt - second.receivedAt).toBeGreaterThanOrEqual(RETRY_DELAY * 2);
+
+    // Every attempt is the same delivery, signed again
+    const deliveryIds = new Set(receiver.requests.map(request => request.headers['x-webhook-delivery']));
+    expect(deliveryIds.size).toBe(1);
+
+    const deliveries = await store.getWebhookDeliveries('wf-3');
+    expect(deliveries.map(delivery => [delivery.attempt, delivery.statusCode, delivery.delivered])).toEqual([
+      [1, 503, false],
+      [2, 429, false],
+      [3, 200, true]
+    ]);
+    expect(deliveries[0].error).toBe('Receiver responded with 503');
+    expect(deliveries[0].nextAttemptAt).toBeInstanceOf(Date);
+    expect(deliveries[1].nextAttemptAt).toBeInstanceOf(Date);
+    expect(deliveries[2].nextAttemptAt).toBeUndefined();
+  });
+
+  it('does not retry other client errors', async () => {
+    receiver.statuses = [410];
+
+    await dispatcher.dispatch(workflow('wf-4', receiver.url), 'completed', {});
+
+    expect(receiver.requests).toHaveLength(1);
+    const deliveries = await store.getWebhookDeliveries('wf-4');
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({ attempt: 1, statusCode: 410, delivered: false });
+    expect(deliveries[0].nextAttemptAt).toBeUndefined();
+  });
+
+  it('gives up after the last attempt', async () => {
+    receiver.statuses = [500, 500, 500];
+
+    await dispatcher.dispatch(workflow('wf-5', receiver.url), 'completed', {});
+
+    expect(receiver.requests).toHaveLength(3);
+    const deliveries = await store.getWebhookDeliveries('wf-5');
+    expect(deliveries.map(delivery => delivery.delivered)).toEqual([false, false, false]);
+    expect(deliveries[2].nextAttemptAt).toBeUndefined();
+  });
+
+  it('retries when the receiver cannot be reached', async () => {
+    const url = receiver.url;
+    await receiver.close();
+
+    await dispatcher.dispatch(workflow('wf-6', url), 'completed', {});
+
+    const deliveries = await store.getWebhookDeliveries('wf-6');
+    expect(deliveries).toHaveLength(3);
+    expect(deliveries[0].statusCode).toBeUndefined();
+    expect(deliveries[0].error).toMatch(/ECONNREFUSED/);
+
+    // afterEach closes the receiver again
+    receiver = new Receiver();
+    await receiver.listen();
+  });
+
+  it('only delivers the events the workflow subscribed to', async () => {
+    await dispatcher.dispatch(workflow('wf-7', receiver.url, ['failed']), 'completed', {});
+
+    expect(receiver.requests).toHaveLength(0);
+    expect(await store.getWebhookDeliveries('wf-7')).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import ServerConfig from '../config/server.config';
+import { WebhookEvent, WorkflowRecord, WorkflowStatus, WorkflowStore } from './workflow-store';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['completed', 'failed', 'awaiting_review'];
+
+/**
+ * Webhook event announcing that a workflow reached a status, if any
+ */
+export function webhookEventFor(status: WorkflowStatus): WebhookEvent | undefined {
+  switch (status) {
+    case 'success':
+      return 'completed';
+    case 'failure':
+    case 'cancelled':
+    case 'interrupted':
+      return 'failed';
+    case 'awaiting_review':
+      return 'awaiting_review';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Sign a delivery body the way receivers verify it: HMAC-SHA256 of
+ * `<timestamp>.<body>` with the shared secret, hex encoded
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Delivers workflow state changes to the callback URLs workflows were
+ * started with. Each delivery is signed and retried with exponential
+ * backoff on network errors, 429 and 5xx responses; every attempt is logged
+ * in the workflow store.
+ */
+export class WebhookDispatcher {
+  private store: WorkflowStore;
+
+  constructor(store: WorkflowStore) {
+    this.store = store;
+  }
+
+  /**
+   * Deliver an event in the background if the workflow subscribed to it.
+   * The returned promise settles once the delivery succeeded or was given up
+   * on and never rejects; callers need not wait for it.
+   */
+  public dispatch(workflow: WorkflowRecord, event: WebhookEvent, data: Record<string, any>): Promise<void> {
+    const { callback } = workflow;
+
+    if (!callback || !callback.events.includes(event)) {
+      return Promise.resolve();
+    }
+
+    const deliveryId = crypto.randomUUID();
+    const body = JSON.stringify({
+      deliveryId,
+      event,
+      workflowId: workflow.id,
+      type: workflow.type,
+      ...data,
+      timestamp: new Date().toISOString()
+    });
+
+    return this.deliver(workflow.id, deliveryId, event, callback.url, callback.secret || ServerConfig.webhookSecret!, body)
+      .catch(error => console.error(`[Webhooks] Delivery ${deliveryId} for workflow ${workflow.id} failed:`, error));
+  }
+
+  private async deliver(
+    workflowId: string,
+    deliveryId: string,
+    event: WebhookEvent,
+    url: string,
+    secret: string,
+    body: string
+  ): Promise<void> {
+    for (let attempt = 1; attempt <= ServerConfig.webhookMaxAttempts; attempt++) {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      let statusCode: number | undefined;
+      let error: string | undefined;
+
+      try {
+        const response = await axios.post(url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'agentic-pdf-webhooks',
+            'X-Webhook-Event': event,
+            'X-Webhook-Delivery': deliveryId,
+            'X-Webhook-Timestamp': timestamp,
+            'X-Webhook-Signature': `sha256=${signWebhook(secret, timestamp, body)}`
+          },
+          timeout: ServerConfig.webhookTimeout,
+          maxRedirects: 0,
+          validateStatus: () => true
+        });
+
+        statusCode = response.status;
+        if (statusCode < 200 || statusCode >= 300) {
+          error = `Receiver responded with ${statusCode}`;
+        }
+      } catch (requestError) {
+        error = (requestError as Error).message;
+      }
+
+      const delivered = !error;
+      // Other client errors will not go away by retrying
+      const retryable = !delivered && (statusCode === undefined || statusCode === 429 || statusCode >= 500);
+      const delay = ServerConfig.webhookRetryDelay * 2 ** (attempt - 1);
+      const nextAttemptAt = retryable && attempt < ServerConfig.webhookMaxAttempts
+        ? new Date(Date.now() + delay)
+        : undefined;
+
+      await this.store.addWebhookDelivery(workflowId, {
+        deliveryId,
+        event,
+        url,
+        attempt,
+        statusCode,
+        error,
+        delivered,
+        nextAttemptAt,
+        createdAt: new Date()
+      });
+
+      if (!nextAttemptAt) {
+        if (!delivered) {
+          console.error(`[Webhooks] Giving up on ${event} delivery ${deliveryId} to ${url}: ${error}`);
+        }
+        return;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
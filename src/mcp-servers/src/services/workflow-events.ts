@@ -0,0 +1,81 @@
+import { EventEmitter } from 'events';
+
+export type WorkflowEventType = 'queued' | 'started' | 'step-started' | 'step-progress' | 'step-completed' | 'awaiting-review' | 'completed';
+
+export interface WorkflowEvent {
+  workflowId: string;
+  // Position of the event in its workflow's stream, used as the SSE id
+  sequence: number;
+  type: WorkflowEventType;
+  step?: string;
+  message: string;
+  data?: Record<string, any>;
+  timestamp: string;
+}
+
+// Event histories kept for late subscribers, oldest workflows dropped first
+const MAX_WORKFLOWS = 200;
+
+/**
+ * Progress events published by the workflow engine as workflows move through
+ * their steps. Each workflow's events are kept in memory so a client that
+ * subscribes mid-run, or after the run, still sees the whole sequence.
+ */
+export class WorkflowEvents {
+  private emitter: EventEmitter;
+  private history: Map<string, WorkflowEvent[]>;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+    this.emitter.setMaxListeners(0);
+    this.history = new Map();
+  }
+
+  public emit(
+    workflowId: string,
+    type: WorkflowEventType,
+    message: string,
+    details?: { step?: string; data?: Record<string, any> }
+  ): void {
+    const events = this.history.get(workflowId) || this.track(workflowId);
+    const event: WorkflowEvent = {
+      workflowId,
+      sequence: events.length,
+      type,
+      ...(details?.step && { step: details.step }),
+      message,
+      ...(details?.data && { data: details.data }),
+      timestamp: new Date().toISOString()
+    };
+
+    events.push(event);
+    this.emitter.emit(workflowId, event);
+  }
+
+  public getHistory(workflowId: string): WorkflowEvent[] {
+    return [...(this.history.get(workflowId) || [])];
+  }
+
+  /**
+   * Listen for a workflow's events; returns a function that unsubscribes
+   */
+  public subscribe(workflowId: string, listener: (event: WorkflowEvent) => void): () => void {
+    this.emitter.on(workflowId, listener);
+    return () => this.emitter.off(workflowId, listener);
+  }
+
+  public clear(workflowId: string): void {
+    this.history.delete(workflowId);
+  }
+
+  private track(workflowId: string): WorkflowEvent[] {
+    if (this.history.size >= MAX_WORKFLOWS) {
+      const [oldest] = this.history.keys();
+      this.history.delete(oldest);
+    }
+
+    const events: WorkflowEvent[] = [];
+    this.history.set(workflowId, events);
+    return events;
+  }
+}
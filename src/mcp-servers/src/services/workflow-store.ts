@@ -0,0 +1,528 @@
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import fs from 'fs';
+import path from 'path';
+import ServerConfig from '../config/server.config';
+
+// Name of the workflow definition the workflow runs
+export type WorkflowType = string;
+
+// 'interrupted' workflows were running when the service stopped and have
+// step results to resume from; 'awaiting_review' workflows wait for a person
+// to approve a review step before they continue
+export type WorkflowStatus =
+  | 'queued'
+  | 'running'
+  | 'awaiting_review'
+  | 'success'
+  | 'failure'
+  | 'interrupted'
+  | 'cancelled';
+
+export interface WorkflowRecord {
+  id: string;
+  type: WorkflowType;
+  status: WorkflowStatus;
+  params: Record<string, any>;
+  startTime: Date;
+  completedTime?: Date;
+  error?: string;
+  // Idempotency-Key the workflow was submitted with
+  idempotencyKey?: string;
+  // Fingerprint of the request, used to find identical submissions
+  requestHash?: string;
+  // Where to deliver webhooks about the workflow's state changes
+  callback?: WorkflowCallback;
+}
+
+export type WebhookEvent = 'completed' | 'failed' | 'awaiting_review';
+
+export interface WorkflowCallback {
+  url: string;
+  events: WebhookEvent[];
+  // Signing secret given with the workflow, instead of WEBHOOK_SECRET
+  secret?: string;
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  event: WebhookEvent;
+  url: string;
+  attempt: number;
+  // HTTP status of the response, if one arrived
+  statusCode?: number;
+  error?: string;
+  delivered: boolean;
+  // When the next attempt is due; unset after the last attempt
+  nextAttemptAt?: Date;
+  createdAt: Date;
+}
+
+export type WorkflowSortField = 'startTime' | 'completedTime' | 'duration' | 'status' | 'type';
+
+export interface WorkflowQuery {
+  statuses?: WorkflowStatus[];
+  types?: WorkflowType[];
+  // Bounds on the start time
+  from?: Date;
+  to?: Date;
+  // Part of the form URL or filename, case-insensitive
+  form?: string;
+  sort?: WorkflowSortField;
+  order?: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+}
+
+export interface WorkflowArtifact {
+  kind: string;
+  path: string;
+  createdAt: Date;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS workflows (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    params TEXT NOT NULL,
+    start_time TEXT NOT NULL,
+    completed_time TEXT,
+    error TEXT,
+    idempotency_key TEXT,
+    request_hash TEXT,
+    callback TEXT
+  );
+  CREATE TABLE IF NOT EXISTS workflow_steps (
+    workflow_id TEXT NOT NULL,
+    step TEXT NOT NULL,
+    result TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (workflow_id, step)
+  );
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    workflow_id TEXT NOT NULL,
+    delivery_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    url TEXT NOT NULL,
+    attempt INTEGER NOT NULL,
+    status_code INTEGER,
+    error TEXT,
+    delivered INTEGER NOT NULL,
+    next_attempt_at TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS workflow_artifacts (
+    workflow_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    path TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS workflows_start_time ON workflows (start_time);
+  CREATE UNIQUE INDEX IF NOT EXISTS workflows_idempotency_key ON workflows (type, idempotency_key);
+  CREATE INDEX IF NOT EXISTS workflows_request_hash ON workflows (request_hash);
+`;
+
+const SORT_COLUMNS: Record<WorkflowSortField, string> = {
+  startTime: 'start_time',
+  completedTime: 'completed_time',
+  duration: '(julianday(completed_time) - julianday(start_time))',
+  status: 'status',
+  type: 'type'
+};
+
+/**
+ * Workflow records, step results and artifact paths in an embedded SQLite
+ * database, so jobs survive restarts. The database lives in memory and is
+ * written to disk flushDelay ms after a change, so a burst of changes is
+ * written once and requests are not held up by the export. close() writes
+ * what is still pending.
+ */
+export class WorkflowStore {
+  private filePath: string;
+  private flushDelay: number;
+  private ready: Promise<Database>;
+  private dirty = false;
+  private flushTimer: NodeJS.Timeout | null = null;
+  // Tail of the disk writes, one at a time
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = ServerConfig.workflowDbPath, flushDelay: number = ServerConfig.workflowDbFlushDelay) {
+    this.filePath = filePath;
+    this.flushDelay = flushDelay;
+    this.ready = this.open();
+
+    // Callers see the error when they use the store
+    this.ready.catch(error => console.error(`[WorkflowStore] Failed to open ${filePath}:`, error));
+  }
+
+  public async createWorkflow(record: WorkflowRecord): Promise<void> {
+    await this.write(
+      `INSERT INTO workflows (id, type, status, params, start_time, completed_time, error, idempotency_key, request_hash, callback)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id,
+        record.type,
+        record.status,
+        JSON.stringify(record.params),
+        record.startTime.toISOString(),
+        record.completedTime?.toISOString() ?? null,
+        record.error ?? null,
+        record.idempotencyKey ?? null,
+        record.requestHash ?? null,
+        record.callback ? JSON.stringify(record.callback) : null
+      ]
+    );
+  }
+
+  /**
+   * Queue a finished workflow to run again with new parameters, which the
+   * request hash identifies from then on
+   */
+  public async restartWorkflow(id: string, params: Record<string, any>, requestHash?: string): Promise<void> {
+    await this.write(
+      `UPDATE workflows SET status = 'queued', params = ?, request_hash = COALESCE(?, request_hash),
+       completed_time = NULL, error = NULL WHERE id = ?`,
+      [JSON.stringify(params), requestHash ?? null, id]
+    );
+  }
+
+  public async updateStatus(id: string, status: WorkflowStatus): Promise<void> {
+    await this.write('UPDATE workflows SET status = ? WHERE id = ?', [status, id]);
+  }
+
+  /**
+   * Record how a workflow ended
+   */
+  public async completeWorkflow(id: string, status: WorkflowStatus, error?: string): Promise<void> {
+    await this.write(
+      'UPDATE workflows SET status = ?, completed_time = ?, error = ? WHERE id = ?',
+      [status, new Date().toISOString(), error ?? null, id]
+    );
+  }
+
+  public async getWorkflow(id: string): Promise<WorkflowRecord | undefined> {
+    const [row] = await this.query('SELECT * FROM workflows WHERE id = ?', [id]);
+    return row && this.toRecord(row);
+  }
+
+  public async findByIdempotencyKey(type: WorkflowType, key: string): Promise<WorkflowRecord | undefined> {
+    const [row] = await this.query('SELECT * FROM workflows WHERE type = ? AND idempotency_key = ?', [type, key]);
+    return row && this.toRecord(row);
+  }
+
+  /**
+   * Most recent workflow submitted with the same request fingerprint and one
+   * of the given statuses
+   */
+  public async findByRequestHash(requestHash: string, statuses: WorkflowStatus[]): Promise<WorkflowRecord | undefined> {
+    const [row] = await this.query(
+      `SELECT * FROM workflows WHERE request_hash = ? AND status IN (${statuses.map(() => '?').join(', ')})
+       ORDER BY start_time DESC LIMIT 1`,
+      [requestHash, ...statuses]
+    );
+    return row && this.toRecord(row);
+  }
+
+  public async listWorkflows(): Promise<WorkflowRecord[]> {
+    const rows = await this.query('SELECT * FROM workflows ORDER BY start_time DESC');
+    return rows.map(row => this.toRecord(row));
+  }
+
+  /**
+   * One page of the workflows matching a query, with the number of matches
+   * across all pages. Workflows without a value to sort by come last.
+   */
+  public async queryWorkflows(query: WorkflowQuery): Promise<{ workflows: WorkflowRecord[]; total: number }> {
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+
+    if (query.statuses?.length) {
+      conditions.push(`status IN (${query.statuses.map(() => '?').join(', ')})`);
+      params.push(...query.statuses);
+    }
+    if (query.types?.length) {
+      conditions.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+    if (query.from) {
+      conditions.push('start_time >= ?');
+      params.push(query.from.toISOString());
+    }
+    if (query.to) {
+      conditions.push('start_time <= ?');
+      params.push(query.to.toISOString());
+    }
+    if (query.form) {
+      conditions.push(
+        "(COALESCE(json_extract(params, '$.pdfUrl'), '') || ' ' || COALESCE(json_extract(params, '$.filename'), '')) LIKE ? ESCAPE '\\'"
+      );
+      params.push(`%${query.form.replace(/[\\%_]/g, match => `\\${match}`)}%`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const column = SORT_COLUMNS[query.sort || 'startTime'];
+    const order = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    const [{ total }] = await this.query(`SELECT COUNT(*) AS total FROM workflows ${where}`, params);
+    const rows = await this.query(
+      `SELECT * FROM workflows ${where}
+       ORDER BY ${column} IS NULL, ${column} ${order}, start_time DESC
+       LIMIT ? OFFSET ?`,
+      [...params, query.limit, query.offset]
+    );
+
+    return { workflows: rows.map(row => this.toRecord(row)), total: Number(total) };
+  }
+
+  public async deleteWorkflow(id: string): Promise<void> {
+    const db = await this.ready;
+
+    db.run('DELETE FROM workflow_steps WHERE workflow_id = ?', [id]);
+    db.run('DELETE FROM workflow_artifacts WHERE workflow_id = ?', [id]);
+    db.run('DELETE FROM webhook_deliveries WHERE workflow_id = ?', [id]);
+    db.run('DELETE FROM workflows WHERE id = ?', [id]);
+    this.persist();
+  }
+
+  /**
+   * Save the result of a workflow step, replacing any earlier result
+   */
+  public async saveStep(workflowId: string, step: string, result: any): Promise<void> {
+    await this.write(
+      'INSERT OR REPLACE INTO workflow_steps (workflow_id, step, result, created_at) VALUES (?, ?, ?, ?)',
+      [workflowId, step, JSON.stringify(result), new Date().toISOString()]
+    );
+  }
+
+  /**
+   * Step results of a workflow keyed by step name
+   */
+  public async getSteps(workflowId: string): Promise<Record<string, any>> {
+    const rows = await this.query(
+      'SELECT step, result FROM workflow_steps WHERE workflow_id = ? ORDER BY rowid',
+      [workflowId]
+    );
+
+    return Object.fromEntries(rows.map(row => [row.step, JSON.parse(row.result as string)]));
+  }
+
+  public async deleteSteps(workflowId: string, steps: string[]): Promise<void> {
+    const db = await this.ready;
+
+    steps.forEach(step => db.run('DELETE FROM workflow_steps WHERE workflow_id = ? AND step = ?', [workflowId, step]));
+    this.persist();
+  }
+
+  /**
+   * Record a file produced by a workflow; a rerun writing the same file again
+   * does not add a second entry
+   */
+  public async addArtifact(workflowId: string, kind: string, artifactPath: string): Promise<void> {
+    await this.write(
+      `INSERT INTO workflow_artifacts (workflow_id, kind, path, created_at)
+       SELECT ?, ?, ?, ?
+       WHERE NOT EXISTS (SELECT 1 FROM workflow_artifacts WHERE workflow_id = ? AND kind = ? AND path = ?)`,
+      [workflowId, kind, artifactPath, new Date().toISOString(), workflowId, kind, artifactPath]
+    );
+  }
+
+  public async getArtifacts(workflowId: string): Promise<WorkflowArtifact[]> {
+    const rows = await this.query(
+      'SELECT kind, path, created_at FROM workflow_artifacts WHERE workflow_id = ? ORDER BY rowid',
+      [workflowId]
+    );
+
+    return rows.map(row => ({
+      kind: row.kind as string,
+      path: row.path as string,
+      createdAt: new Date(row.created_at as string)
+    }));
+  }
+
+  /**
+   * Workflows still marked running were cut off by a restart. Those with
+   * step results become 'interrupted' so they can be resumed; the others,
+   * including everything still queued, never got anywhere and are failed.
+   */
+  public async recoverInterrupted(): Promise<WorkflowRecord[]> {
+    const db = await this.ready;
+    const running = await this.query("SELECT * FROM workflows WHERE status IN ('queued', 'running')");
+    const completedTime = new Date().toISOString();
+
+    for (const row of running) {
+      const [{ steps }] = await this.query(
+        'SELECT COUNT(*) AS steps FROM workflow_steps WHERE workflow_id = ?',
+        [row.id]
+      );
+      const status: WorkflowStatus = Number(steps) > 0 ? 'interrupted' : 'failure';
+
+      db.run(
+        'UPDATE workflows SET status = ?, completed_time = ?, error = ? WHERE id = ?',
+        [status, completedTime, 'Interrupted by a service restart', row.id]
+      );
+    }
+
+    if (running.length > 0) {
+      this.persist();
+    }
+
+    const ids = running.map(row => row.id as string);
+    return (await this.listWorkflows()).filter(record => ids.includes(record.id));
+  }
+
+  public async addWebhookDelivery(workflowId: string, delivery: WebhookDelivery): Promise<void> {
+    await this.write(
+      `INSERT INTO webhook_deliveries
+         (workflow_id, delivery_id, event, url, attempt, status_code, error, delivered, next_attempt_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        workflowId,
+        delivery.deliveryId,
+        delivery.event,
+        delivery.url,
+        delivery.attempt,
+        delivery.statusCode ?? null,
+        delivery.error ?? null,
+        delivery.delivered ? 1 : 0,
+        delivery.nextAttemptAt?.toISOString() ?? null,
+        delivery.createdAt.toISOString()
+      ]
+    );
+  }
+
+  /**
+   * Every delivery attempt for a workflow, oldest first
+   */
+  public async getWebhookDeliveries(workflowId: string): Promise<WebhookDelivery[]> {
+    const rows = await this.query(
+      'SELECT * FROM webhook_deliveries WHERE workflow_id = ? ORDER BY rowid',
+      [workflowId]
+    );
+
+    return rows.map(row => ({
+      deliveryId: row.delivery_id as string,
+      event: row.event as WebhookEvent,
+      url: row.url as string,
+      attempt: Number(row.attempt),
+      ...(row.status_code !== null && { statusCode: Number(row.status_code) }),
+      ...(row.error && { error: row.error as string }),
+      delivered: Boolean(row.delivered),
+      ...(row.next_attempt_at && { nextAttemptAt: new Date(row.next_attempt_at as string) }),
+      createdAt: new Date(row.created_at as string)
+    }));
+  }
+
+  private async open(): Promise<Database> {
+    const SQL = await initSqlJs();
+    const db = fs.existsSync(this.filePath)
+      ? new SQL.Database(fs.readFileSync(this.filePath))
+      : new SQL.Database();
+
+    db.exec(SCHEMA);
+    console.log(`[WorkflowStore] Using ${this.filePath}`);
+
+    return db;
+  }
+
+  private async write(sql: string, params: SqlValue[]): Promise<void> {
+    const db = await this.ready;
+    db.run(sql, params);
+    this.persist();
+  }
+
+  private async query(sql: string, params: SqlValue[] = []): Promise<Array<Record<string, SqlValue>>> {
+    const db = await this.ready;
+    const statement = db.prepare(sql);
+
+    try {
+      statement.bind(params);
+
+      const rows: Array<Record<string, SqlValue>> = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  /**
+   * Write pending changes to disk now
+   */
+  public async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (this.dirty) {
+      const db = await this.ready;
+      const data = db.export();
+
+      this.dirty = false;
+      this.writing = this.writing.then(() => this.writeFile(data));
+    }
+
+    return this.writing;
+  }
+
+  public async close(): Promise<void> {
+    await this.flush();
+    (await this.ready).close();
+  }
+
+  private persist(): void {
+    this.dirty = true;
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.flushDelay);
+    }
+  }
+
+  /**
+   * Write through a temporary file so a crash mid-write cannot corrupt the
+   * database
+   */
+  private async writeFile(data: Uint8Array): Promise<void> {
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (error) {
+      // Written again with the next change
+      this.dirty = true;
+      console.error(`[WorkflowStore] Failed to write ${this.filePath}:`, error);
+    }
+  }
+
+  private toRecord(row: Record<string, SqlValue>): WorkflowRecord {
+    const record: WorkflowRecord = {
+      id: row.id as string,
+      type: row.type as WorkflowType,
+      status: row.status as WorkflowStatus,
+      params: JSON.parse(row.params as string),
+      startTime: new Date(row.start_time as string)
+    };
+
+    if (row.completed_time) {
+      record.completedTime = new Date(row.completed_time as string);
+    }
+    if (row.error) {
+      record.error = row.error as string;
+    }
+    if (row.idempotency_key) {
+      record.idempotencyKey = row.idempotency_key as string;
+    }
+    if (row.request_hash) {
+      record.requestHash = row.request_hash as string;
+    }
+    if (row.callback) {
+      record.callback = JSON.parse(row.callback as string);
+    }
+
+    return record;
+  }
+}
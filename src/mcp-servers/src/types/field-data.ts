@@ -0,0 +1,47 @@
+/**
+ * Rectangle in PDF user space as [x, y, width, height], measured in points
+ * from the bottom-left corner of the page
+ */
+export type FieldCoordinates = [number, number, number, number];
+
+export interface FieldWidget {
+  page: number;
+  coordinates: FieldCoordinates;
+  exportValue?: string;
+}
+
+/**
+ * Text printed around a widget
+ */
+export interface FieldContextClues {
+  label?: string;
+  itemNumber?: string;
+  section?: string;
+}
+
+/**
+ * A fillable field of a PDF form. AI providers only fill in name, type,
+ * description and sometimes location; the native inventory reports
+ * everything the AcroForm declares.
+ */
+export interface FieldData {
+  name: string;
+  type: string;
+  description: string;
+  location?: {
+    page: number;
+    coordinates?: FieldCoordinates;
+  };
+  options?: string[];
+  maxLength?: number;
+  readOnly?: boolean;
+  required?: boolean;
+  value?: string | string[] | boolean | null;
+  widgets?: FieldWidget[];
+  // AI providers return a plain list of nearby text
+  context_clues?: FieldContextClues | string[];
+  // Added by AI annotation in hybrid mode
+  dataType?: string;
+  group?: string;
+  annotated?: boolean;
+}
@@ -2,41 +2,47 @@ import { useState } from 'react';
 
 interface FilledFormViewerProps {
   resultUrl: string;
+  // Manifest of the run that filled the form
+  manifestUrl?: string;
   onReset: () => void;
 }
 
-export default function FilledFormViewer({ resultUrl, onReset }: FilledFormViewerProps) {
-  const [downloading, setDownloading] = useState(false);
+async function saveFile(fileUrl: string, filename: string) {
+  // Fetch the file
+  const response = await fetch(fileUrl);
 
-  const handleDownload = async () => {
-    setDownloading(true);
+  if (!response.ok) {
+    throw new Error('Failed to download file');
+  }
 
-    try {
-      // Get the filename from the URL
-      const filename = resultUrl.split('/').pop() || 'filled-form.pdf';
+  // Convert to blob
+  const blob = await response.blob();
 
-      // Fetch the file
-      const response = await fetch(`/api/download?path=${encodeURIComponent(resultUrl)}`);
+  // Create download link and trigger click
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.style.display = 'none';
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
 
-      if (!response.ok) {
-        throw new Error('Failed to download file');
-      }
+  // Clean up
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
 
-      // Convert to blob
-      const blob = await response.blob();
+export default function FilledFormViewer({ resultUrl, manifestUrl, onReset }: FilledFormViewerProps) {
+  const [downloading, setDownloading] = useState(false);
+
+  // Get the filename from the URL
+  const filename = resultUrl.split('/').pop() || 'filled-form.pdf';
 
-      // Create download link and trigger click
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
+  const handleDownload = async () => {
+    setDownloading(true);
 
-      // Clean up
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+    try {
+      await saveFile(`/api/download?path=${encodeURIComponent(resultUrl)}`, filename);
     } catch (error) {
       console.error('Download error:', error);
       alert('Failed to download the form. Please try again.');
@@ -45,6 +51,15 @@ export default function FilledFormViewer({ resultUrl, onReset }: FilledFormViewe
     }
   };
 
+  const handleManifestDownload = async () => {
+    try {
+      await saveFile(manifestUrl!, filename.replace(/\.pdf$/i, '') + '.manifest.json');
+    } catch (error) {
+      console.error('Download error:', error);
+      alert('Failed to download the manifest. Please try again.');
+    }
+  };
+
   return (
     <div className="bg-white shadow overflow-hidden sm:rounded-lg">
       <div className="px-4 py-5 sm:px-6">
@@ -103,6 +118,20 @@ export default function FilledFormViewer({ resultUrl, onReset }: FilledFormViewe
                 </svg>
               </button>
             </div>
+            {manifestUrl && (
+              <div className="mt-2">
+                <button
+                  type="button"
+                  onClick={handleManifestDownload}
+                  className="text-sm font-medium text-primary-600 hover:text-primary-500"
+                >
+                  Download run manifest
+                </button>
+                <p className="mt-1 text-xs text-gray-500">
+                  Input hashes, models and prompt versions used to fill this form
+                </p>
+              </div>
+            )}
           </div>
         </div>
 
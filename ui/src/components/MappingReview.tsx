@@ -0,0 +1,154 @@
+import { useState } from 'react';
+
+interface MappedField {
+  fieldName: string;
+  value: any;
+  confidence?: number;
+  source?: string;
+}
+
+export interface MappingReviewData {
+  mappedFields: MappedField[];
+  unmappedFormFields?: { name: string; description?: string }[];
+  unmappedDonorFields?: string[];
+  fieldValues?: Record<string, any>;
+}
+
+interface MappingReviewProps {
+  review: MappingReviewData;
+  submitting: boolean;
+  onApprove: (edits: { mappedFields: MappedField[]; fieldValues: Record<string, any> }, comment: string) => void;
+  onReject: (comment: string) => void;
+}
+
+export default function MappingReview({ review, submitting, onApprove, onReject }: MappingReviewProps) {
+  const [mappedFields, setMappedFields] = useState<MappedField[]>(review.mappedFields || []);
+  const [fieldValues, setFieldValues] = useState<Record<string, any>>(review.fieldValues || {});
+  const [comment, setComment] = useState('');
+
+  const updateMappedField = (index: number, value: string) => {
+    const updatedFields = [...mappedFields];
+    updatedFields[index] = { ...updatedFields[index], value };
+    setMappedFields(updatedFields);
+  };
+
+  const updateFieldValue = (name: string, value: string) => {
+    const updatedValues = { ...fieldValues };
+    if (value) {
+      updatedValues[name] = value;
+    } else {
+      delete updatedValues[name];
+    }
+    setFieldValues(updatedValues);
+  };
+
+  const inputClassName = 'shadow-sm focus:ring-primary-500 focus:border-primary-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Review Mapped Fields</h3>
+        <p className="mt-1 max-w-2xl text-sm text-gray-500">
+          Check the values found in your documents before they are written into the form
+        </p>
+      </div>
+
+      <div className="border-t border-gray-200 px-4 py-5 sm:px-6 space-y-6">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">Mapped fields</h4>
+          {mappedFields.length === 0 ? (
+            <p className="mt-2 text-sm text-gray-500">No fields could be mapped from your documents.</p>
+          ) : (
+            <ul className="mt-2 divide-y divide-gray-200">
+              {mappedFields.map((field, index) => (
+                <li key={field.fieldName} className="py-2 grid grid-cols-3 gap-4 items-center">
+                  <div className="text-sm text-gray-900 break-all">
+                    {field.fieldName}
+                    {field.confidence !== undefined && (
+                      <span className="ml-2 text-xs text-gray-500">{Math.round(field.confidence * 100)}%</span>
+                    )}
+                  </div>
+                  <div className="col-span-2">
+                    <input
+                      type="text"
+                      value={field.value ?? ''}
+                      onChange={(e) => updateMappedField(index, e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {review.unmappedFormFields && review.unmappedFormFields.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700">Fields without a value</h4>
+            <ul className="mt-2 divide-y divide-gray-200">
+              {review.unmappedFormFields.map((field) => (
+                <li key={field.name} className="py-2 grid grid-cols-3 gap-4 items-center">
+                  <div className="text-sm text-gray-900 break-all">
+                    {field.name}
+                    {field.description && <p className="text-xs text-gray-500">{field.description}</p>}
+                  </div>
+                  <div className="col-span-2">
+                    <input
+                      type="text"
+                      value={fieldValues[field.name] ?? ''}
+                      onChange={(e) => updateFieldValue(field.name, e.target.value)}
+                      className={inputClassName}
+                      placeholder="Leave empty to keep blank"
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {review.unmappedDonorFields && review.unmappedDonorFields.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700">Unused document data</h4>
+            <p className="mt-1 text-sm text-gray-500">{review.unmappedDonorFields.join(', ')}</p>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="review-comment" className="block text-sm font-medium text-gray-700">
+            Comment
+          </label>
+          <div className="mt-1">
+            <input
+              type="text"
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              className={inputClassName}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-between">
+          <button
+            type="button"
+            onClick={() => onReject(comment)}
+            disabled={submitting}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+          >
+            Reject
+          </button>
+          <button
+            type="button"
+            onClick={() => onApprove({ mappedFields, fieldValues }, comment)}
+            disabled={submitting}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50"
+          >
+            {submitting ? 'Submitting...' : 'Approve & Fill Form'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,18 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import axios from 'axios';
+import { Stream } from 'stream';
+import { promisify } from 'util';
 
 // Base URL for the orchestration service
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3002';
+const pipeline = promisify(Stream.pipeline);
+
+// Event streams stay open for the whole workflow
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+};
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
@@ -16,6 +26,28 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const method = req.method || 'GET';
     const url = `${API_BASE_URL}/${apiPath}`;
 
+    // Pass Server-Sent Events through as they arrive
+    if (method === 'GET' && path[path.length - 1] === 'events') {
+      const controller = new AbortController();
+      req.on('close', () => controller.abort());
+
+      const response = await axios.get(url, {
+        responseType: 'stream',
+        signal: controller.signal,
+        // Errors such as an unknown workflow are passed through as they are
+        validateStatus: () => true,
+      });
+
+      res.writeHead(response.status, {
+        'Content-Type': response.headers['content-type'] || 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      });
+
+      await pipeline(response.data, res);
+      return;
+    }
+
     // Forward the request to the backend service
     const response = await axios({
       method: method as any,
@@ -23,13 +55,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       data: method !== 'GET' ? req.body : undefined,
       headers: {
         'Content-Type': 'application/json',
+        ...(req.headers['idempotency-key'] && { 'Idempotency-Key': req.headers['idempotency-key'] }),
       },
     });
 
     return res.status(response.status).json(response.data);
   } catch (error: any) {
+    // The browser closed the event stream
+    if (axios.isCancel(error) || error.code === 'ERR_STREAM_PREMATURE_CLOSE') {
+      return;
+    }
+
     console.error('API error:', error);
 
+    if (res.headersSent) {
+      return res.end();
+    }
+
     // Forward error status if available
     if (error.response) {
       return res.status(error.response.status || 500).json(error.response.data || { error: 'Internal server error' });
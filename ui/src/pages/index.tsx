@@ -5,6 +5,16 @@ import DonorDocumentUploader from '../components/DonorDocumentUploader';
 import WorkflowProgress from '../components/WorkflowProgress';
 import FilledFormViewer from '../components/FilledFormViewer';
 import FormFiller from '../components/FormFiller';
+import MappingReview, { MappingReviewData } from '../components/MappingReview';
+
+interface WorkflowEvent {
+  type: string;
+  step?: string;
+  message: string;
+  data?: Record<string, any>;
+}
+
+const PROGRESS_EVENTS = ['queued', 'started', 'step-started', 'step-progress', 'step-completed'];
 
 export default function Home() {
   const [activeStep, setActiveStep] = React.useState(0);
@@ -12,18 +22,35 @@ export default function Home() {
   const [formUrl, setFormUrl] = React.useState('https://courts.ca.gov/sites/default/files/courts/default/2024-11/dv100.pdf');
   const [donorDocs, setDonorDocs] = React.useState<string[]>([]);
   const [resultUrl, setResultUrl] = React.useState<string | null>(null);
+  const [progress, setProgress] = React.useState<WorkflowEvent[]>([]);
+  const [review, setReview] = React.useState<MappingReviewData | null>(null);
+  const [submittingReview, setSubmittingReview] = React.useState(false);
+  // Repeated submissions of the same form and documents, e.g. a double
+  // click, share a key so only one workflow is started
+  const submissionKey = React.useRef<string | null>(null);
+
+  React.useEffect(() => {
+    submissionKey.current = null;
+  }, [formUrl, donorDocs]);
 
   const handleStartWorkflow = async () => {
     try {
       setActiveStep(2); // Set to processing state
+      setProgress([]);
+
+      if (!submissionKey.current) {
+        submissionKey.current = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      }
 
-      const response = await fetch('/api/workflow/pdf-analysis', {
+      const response = await fetch('/api/workflow/form-filling', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': submissionKey.current,
+        },
         body: JSON.stringify({
           pdfUrl: formUrl,
           donorDocumentPaths: donorDocs,
-          analysisProvider: 'perplexity',
         }),
       });
 
@@ -31,7 +58,7 @@ export default function Home() {
 
       if (data.workflowId) {
         setWorkflowId(data.workflowId);
-        pollWorkflowStatus(data.workflowId);
+        followWorkflow(data.workflowId);
       } else {
         console.error('Failed to start workflow', data);
         setActiveStep(0);
@@ -42,16 +69,46 @@ export default function Home() {
     }
   };
 
+  const followWorkflow = (id: string) => {
+    const source = new EventSource(`/api/workflow/${id}/events`);
+
+    PROGRESS_EVENTS.forEach((type) => {
+      source.addEventListener(type, (event) => {
+        const workflowEvent: WorkflowEvent = JSON.parse((event as MessageEvent).data);
+        setProgress((events) => [...events, workflowEvent]);
+      });
+    });
+
+    // The workflow pauses until the mapped fields are approved
+    source.addEventListener('awaiting-review', () => {
+      source.close();
+      pollWorkflowStatus(id);
+    });
+
+    source.addEventListener('completed', () => {
+      source.close();
+      pollWorkflowStatus(id);
+    });
+
+    source.onerror = () => {
+      // Fall back to polling if the stream is unavailable
+      source.close();
+      pollWorkflowStatus(id);
+    };
+  };
+
   const pollWorkflowStatus = async (id: string) => {
     try {
       const response = await fetch(`/api/workflow/${id}`);
       const data = await response.json();
 
       if (data.status === 'success') {
-        setResultUrl(data.result?.filledForm?.path || null);
+        setResultUrl(data.result?.filledFormPath || null);
         setActiveStep(3); // Set to completed state
-      } else if (data.status === 'failure') {
-        console.error('Workflow failed', data);
+      } else if (data.status === 'awaiting_review') {
+        setReview(data.review?.data || null);
+      } else if (['failure', 'cancelled', 'interrupted'].includes(data.status)) {
+        console.error('Workflow did not complete', data);
         setActiveStep(0);
       } else {
         // Still processing, poll again after a delay
@@ -63,11 +120,40 @@ export default function Home() {
     }
   };
 
+  const submitReview = async (body: Record<string, any>) => {
+    if (!workflowId) return;
+
+    setSubmittingReview(true);
+
+    try {
+      const response = await fetch(`/api/workflow/${workflowId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        console.error('Failed to submit review', await response.json());
+        return;
+      }
+
+      setReview(null);
+      setProgress([]);
+      followWorkflow(workflowId);
+    } catch (error) {
+      console.error('Error submitting review', error);
+    } finally {
+      setSubmittingReview(false);
+    }
+  };
+
   const handleReset = () => {
     setActiveStep(0);
     setWorkflowId(null);
     setDonorDocs([]);
     setResultUrl(null);
+    setProgress([]);
+    setReview(null);
   };
 
   return (
@@ -117,19 +203,41 @@ export default function Home() {
               />
             )}
 
-            {activeStep === 2 && (
+            {activeStep === 2 && review && (
+              <MappingReview
+                review={review}
+                submitting={submittingReview}
+                onApprove={(edits, comment) => submitReview({ approved: true, ...edits, comment })}
+                onReject={(comment) => submitReview({ approved: false, comment })}
+              />
+            )}
+
+            {activeStep === 2 && !review && (
               <div className="text-center py-12">
                 <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-primary-600 mx-auto"></div>
                 <h2 className="mt-4 text-xl font-semibold text-gray-700">Processing your documents</h2>
                 <p className="mt-2 text-gray-500">
                   This may take a minute. We're extracting information and filling your form.
                 </p>
+                {progress.length > 0 && (
+                  <ul className="mt-6 space-y-1 text-sm text-gray-600">
+                    {progress.map((event, index) => (
+                      <li
+                        key={index}
+                        className={index === progress.length - 1 ? 'font-medium text-gray-900' : undefined}
+                      >
+                        {event.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             )}
 
             {activeStep === 3 && resultUrl && (
               <FilledFormViewer
                 resultUrl={resultUrl}
+                manifestUrl={workflowId ? `/api/workflow/${workflowId}/manifest` : undefined}
                 onReset={handleReset}
               />
             )}